@@ -1,9 +1,12 @@
 import { defineConfig } from 'astro/config';
+import node from '@astrojs/node';
 import react from '@astrojs/react';
 import tailwind from '@astrojs/tailwind';
 
 // https://astro.build/config
 export default defineConfig({
+  // Pages are static unless they opt out (share pages and API routes need a server)
+  output: 'hybrid',
+  adapter: node({ mode: 'standalone' }),
   integrations: [react(), tailwind()],
 });
-
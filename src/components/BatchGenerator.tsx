@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import {
+  MAX_RECIPIENTS,
+  applyPhotoOverrides,
+  buildBatchUrlsCsv,
+  getUniqueFileNames,
+  parseRecipients,
+  type BatchRecipient,
+} from '../lib/batch';
+import { getCollageImageFileName, renderCollageImage } from '../lib/canvasRenderer';
+import type { CollageOptions } from '../lib/collage';
+import { DEFAULT_GREETING } from '../lib/greeting';
+import type { MediaBackend } from '../lib/mediaBackend';
+import { getOutputPreset } from '../lib/presets';
+import type { PlacedProjectPhoto, ProjectPhoto } from '../lib/projects';
+import { loadRenderedImage, type RenderStatus } from '../lib/renderStatus';
+import { getCollageTheme } from '../lib/themes';
+import { createZip } from '../lib/zip';
+
+type BatchGeneratorProps = {
+  mediaBackend: MediaBackend;
+  /** Photo library, where a recipient's photos are looked up */
+  library: ProjectPhoto[];
+  /** The editor's photos, indexed by layout slot */
+  layout: Array<PlacedProjectPhoto | null>;
+  /** The editor's layout, theme and greeting, shared by every card */
+  options: CollageOptions;
+  /** Base name for the downloaded files, e.g. "Smith 2025" */
+  name: string;
+};
+
+// One card of the batch
+type BatchCard = {
+  recipient: BatchRecipient;
+  /** The recipient's photos that matched nothing in the library; their slots keep the editor's photo */
+  missingPhotos: string[];
+  /** Photos indexed by layout slot; their URLs are resolved through the backend once the card renders */
+  photos: Array<PlacedProjectPhoto | null>;
+  options: CollageOptions;
+  status: RenderStatus;
+  /** Collage URL from Cloudinary; the local backend's renders only exist in this tab, so it has none */
+  url: string;
+  /** Image shown in the review grid: the collage URL, or an object URL of the card drawn in the browser */
+  previewUrl: string;
+  /** Card drawn in the browser, kept for the ZIP */
+  image?: Blob;
+};
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+/**
+ * Batch mode: reads a recipient list and renders one card per recipient from the editor's layout, theme and photos
+ * Cards render one at a time into a review grid; their URLs can be downloaded as CSV and their images as a ZIP.
+ */
+export default function BatchGenerator({ mediaBackend, library, layout, options, name }: BatchGeneratorProps) {
+  const [cards, setCards] = useState<BatchCard[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [zipProgress, setZipProgress] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Bumped for every new list (and on unmount), so an older run stops instead of overwriting the grid
+  const runRef = useRef(0);
+  const objectUrlsRef = useRef<string[]>([]);
+
+  const isCloudinary = mediaBackend.kind === 'cloudinary';
+  const preset = getOutputPreset(options.presetId);
+  const backgroundUrl = mediaBackend.getBackgroundUrl(getCollageTheme(options.themeId).backgroundId);
+
+  const revokeObjectUrls = () => {
+    objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    objectUrlsRef.current = [];
+  };
+
+  useEffect(
+    () => () => {
+      runRef.current++;
+      revokeObjectUrls();
+    },
+    []
+  );
+
+  const updateCard = (run: number, index: number, update: Partial<BatchCard>) => {
+    if (run !== runRef.current) return;
+    setCards((prev) => prev.map((card, i) => (i === index ? { ...card, ...update } : card)));
+  };
+
+  const generateCards = async (recipients: BatchRecipient[]) => {
+    const run = ++runRef.current;
+    revokeObjectUrls();
+
+    const greeting = options.greeting ?? DEFAULT_GREETING;
+    const resolvedUrls = new Map<string, string>();
+    const resolvePhoto = async (photo: PlacedProjectPhoto | null) => {
+      if (!photo) return null;
+      if (!resolvedUrls.has(photo.publicId)) {
+        resolvedUrls.set(photo.publicId, await mediaBackend.resolvePhotoUrl(photo));
+      }
+      return { ...photo, url: resolvedUrls.get(photo.publicId)! };
+    };
+
+    const initialCards = recipients.map((recipient): BatchCard => {
+      const overrides = applyPhotoOverrides(layout, library, recipient.photos);
+      return {
+        recipient,
+        missingPhotos: overrides.missing,
+        photos: overrides.layout,
+        options: { ...options, greeting: recipient.greeting ? { ...greeting, title: recipient.greeting } : greeting },
+        status: { state: 'idle' },
+        url: '',
+        previewUrl: '',
+      };
+    });
+    setCards(initialCards);
+    setIsGenerating(true);
+
+    // One card at a time: drawing several full-size cards at once can exhaust the browser's memory
+    for (const [index, card] of initialCards.entries()) {
+      if (run !== runRef.current) return;
+      updateCard(run, index, { status: { state: 'loading' } });
+      try {
+        const photos = await Promise.all(card.photos.map(resolvePhoto));
+        if (isCloudinary) {
+          const url = await mediaBackend.renderCollage(photos, card.recipient.name, card.options);
+          await loadRenderedImage(url);
+          updateCard(run, index, { photos, url, previewUrl: url, status: { state: 'ready' } });
+        } else {
+          const image = await renderCollageImage(photos, card.recipient.name, card.options, {
+            format: 'image/jpeg',
+            backgroundUrl,
+            webFonts: mediaBackend.webFonts,
+          });
+          const previewUrl = URL.createObjectURL(image);
+          objectUrlsRef.current.push(previewUrl);
+          updateCard(run, index, { photos, image, previewUrl, status: { state: 'ready' } });
+        }
+      } catch (error) {
+        updateCard(run, index, { status: { state: 'error', reason: (error as Error).message } });
+      }
+    }
+    if (run === runRef.current) {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Choosing the same file again (e.g. after fixing it) should still trigger a change
+    if (!file) return;
+    const result = parseRecipients(await file.text());
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    generateCards(result.recipients);
+  };
+
+  const readyCards = cards.filter((card) => card.status.state === 'ready');
+
+  const handleDownloadCsv = () => {
+    const csv = buildBatchUrlsCsv(readyCards);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), getCollageImageFileName(`${name} urls`, 'text/csv'));
+  };
+
+  // Images are drawn in the browser, like the single-card downloads, so the ZIP doesn't depend on Cloudinary renders
+  const handleDownloadZip = async () => {
+    setZipProgress(0);
+    try {
+      const fileNames = getUniqueFileNames(
+        readyCards.map((card) => getCollageImageFileName(card.recipient.name, 'image/jpeg'))
+      );
+      const entries = [];
+      for (const [index, card] of readyCards.entries()) {
+        const image =
+          card.image ??
+          (await renderCollageImage(card.photos, card.recipient.name, card.options, {
+            format: 'image/jpeg',
+            backgroundUrl,
+            webFonts: mediaBackend.webFonts,
+          }));
+        entries.push({ name: fileNames[index], data: new Uint8Array(await image.arrayBuffer()) });
+        setZipProgress(index + 1);
+      }
+      downloadBlob(createZip(entries), getCollageImageFileName(`${name} cards`, 'application/zip'));
+    } catch (error) {
+      console.error('Failed to create the ZIP:', error);
+      alert('Could not create the ZIP. If the photos are on another site, it may not allow them to be downloaded.');
+    } finally {
+      setZipProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Make a card for every family on a list, all with this layout, theme and photos. Use a CSV file with a{' '}
+        <code className="font-mono text-xs">name</code> column and optional{' '}
+        <code className="font-mono text-xs">greeting</code> (replaces the title; {'{name}'} and {'{year}'} work) and{' '}
+        <code className="font-mono text-xs">photos</code> (library file names or public IDs separated by |, placed from
+        the first slot) columns, or a JSON array of objects with the same fields. Up to {MAX_RECIPIENTS} recipients.
+      </p>
+      <div className="flex flex-wrap gap-2 items-center">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isGenerating}
+          className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors whitespace-nowrap"
+        >
+          {isGenerating ? `Generating ${cards.filter((card) => card.status.state !== 'idle').length} of ${cards.length}...` : 'Choose recipient list'}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+        {readyCards.length > 0 && (
+          <>
+            {/* Locally rendered cards only exist in this browser, so there are no URLs to export */}
+            {isCloudinary && (
+              <button
+                onClick={handleDownloadCsv}
+                disabled={isGenerating}
+                className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+              >
+                Download URLs (CSV)
+              </button>
+            )}
+            <button
+              onClick={handleDownloadZip}
+              disabled={isGenerating || zipProgress !== null}
+              className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+            >
+              {zipProgress !== null ? `Preparing ${zipProgress} of ${readyCards.length}...` : 'Download images (ZIP)'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border-2 border-red-300 rounded-lg text-sm text-red-800" role="alert">
+          <div className="flex justify-between gap-2">
+            <strong>This recipient list could not be read:</strong>
+            <button onClick={() => setErrors([])} className="font-bold" aria-label="Dismiss">
+              ×
+            </button>
+          </div>
+          <ul className="mt-1 list-disc list-inside font-mono text-xs">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {cards.length > 0 && (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {cards.map((card, index) => (
+            <li key={index} className="bg-white rounded-lg border-2 border-green-200 overflow-hidden">
+              <div
+                className="bg-gray-100 flex items-center justify-center"
+                style={{ aspectRatio: `${preset.width} / ${preset.height}` }}
+              >
+                {card.status.state === 'ready' ? (
+                  <img src={card.previewUrl} alt={`Card for ${card.recipient.name}`} className="w-full h-full object-contain" />
+                ) : (
+                  <span
+                    className={`text-sm font-semibold ${
+                      card.status.state === 'error' ? 'text-red-700' : 'text-gray-600'
+                    } ${card.status.state === 'loading' ? 'animate-pulse' : ''}`}
+                  >
+                    {card.status.state === 'error' ? 'Not rendered' : card.status.state === 'loading' ? 'Rendering...' : 'Waiting...'}
+                  </span>
+                )}
+              </div>
+              <div className="p-2 space-y-1 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold text-gray-800 truncate">{card.recipient.name}</span>
+                  {card.url && (
+                    <a href={card.url} target="_blank" rel="noopener noreferrer" className="text-green-700 hover:underline whitespace-nowrap">
+                      Open
+                    </a>
+                  )}
+                </div>
+                {card.status.state === 'error' && (
+                  <p className="font-mono text-xs text-red-800" role="alert">
+                    {card.status.reason}
+                  </p>
+                )}
+                {card.missingPhotos.length > 0 && (
+                  <p className="text-xs text-yellow-800">Not in the library: {card.missingPhotos.join(', ')}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  loadCachedImage,
+  loadCollageFonts,
+  loadCollagePhotos,
+  renderCollageToCanvas,
+  type DecodedImage,
+  type RenderablePhoto,
+} from '../lib/canvasRenderer';
+import { getCollageGeometry, type CollageOptions } from '../lib/collage';
+
+type CollagePreviewProps = {
+  /** Photos indexed by layout slot; null leaves the slot empty */
+  photos: Array<RenderablePhoto | null>;
+  familyName: string;
+  options: CollageOptions;
+  /** Theme background image; the theme's background color is drawn without one */
+  backgroundUrl: string | null;
+  /** Whether fonts may be fetched from Google Fonts; the offline backend draws text in fonts installed on the device */
+  webFonts: boolean;
+};
+
+/**
+ * Live preview of the card, drawn in the browser on every edit
+ * Photos are loaded once and kept, so after the first draw changes show up immediately.
+ */
+export default function CollagePreview({ photos, familyName, options, backgroundUrl, webFonts }: CollagePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageCacheRef = useRef(new Map<string, Promise<DecodedImage>>());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const cache = imageCacheRef.current;
+    Promise.all([
+      loadCollagePhotos(photos, cache),
+      backgroundUrl ? loadCachedImage(backgroundUrl, cache).catch(() => null) : null,
+      loadCollageFonts(getCollageGeometry(options, familyName).textLines, webFonts),
+    ])
+      .then(([entries, background]) => {
+        if (!isCurrent || !canvasRef.current) return;
+        renderCollageToCanvas(canvasRef.current, entries, familyName, options, background);
+        setIsLoading(false);
+      })
+      .catch((error) => console.error('Failed to draw the preview:', error));
+    return () => {
+      isCurrent = false;
+    };
+    // The options object is rebuilt on every render of the app, so depend on its fields
+  }, [photos, familyName, options.layoutId, options.presetId, options.themeId, options.greeting, options.harmonizeColors, backgroundUrl, webFonts]);
+
+  return (
+    <div className="relative w-full">
+      <canvas ref={canvasRef} className="w-full h-auto block" aria-label="Live preview of the holiday card" />
+      {isLoading && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm font-semibold text-gray-600">
+          Loading photos...
+        </p>
+      )}
+    </div>
+  );
+}
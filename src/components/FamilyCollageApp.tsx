@@ -1,69 +1,503 @@
 import { useState, useRef, useEffect } from 'react';
-import UploadWidget from './UploadWidget';
-import { buildCollageUrl } from '../lib/collage';
-import { uploadToCloudinary } from '../lib/upload';
+import BatchGenerator from './BatchGenerator';
+import CollagePreview from './CollagePreview';
+import PhotoLibrary from './PhotoLibrary';
+import ShareLink from './ShareLink';
+import UploadQueueList from './UploadQueueList';
+import UploadWidget, { type UploadWidgetResult } from './UploadWidget';
+import { useSavedProjects } from '../hooks/useSavedProjects';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import {
+  DEFAULT_ADJUSTMENTS,
+  PHOTO_FILTERS,
+  getAdjustmentCssFilter,
+  type PhotoAdjustments,
+} from '../lib/adjustments';
+import { rankArrangements, type FaceRegion } from '../lib/arrange';
+import { getCollageImageFileName, renderCollageImage, type CollageImageFormat } from '../lib/canvasRenderer';
+import { buildCollageUrl, getCollageGeometry, type CollageOptions } from '../lib/collage';
+import { parseCollageUrl } from '../lib/collageParser';
+import { DEFAULT_CROP, MAX_ZOOM, getSourceFocalPoint, type CropGravity, type PhotoCrop } from '../lib/crop';
+import { parseExifDate, type ExifMetadata } from '../lib/exif';
+import { DEFAULT_GREETING, GREETING_FONTS, type Greeting, type TextStyle } from '../lib/greeting';
+import { createHistory, recordHistory, redoHistory, undoHistory, type History } from '../lib/history';
+import { DEFAULT_LAYOUT_ID, LAYOUT_TEMPLATES, getLayoutTemplate } from '../lib/layouts';
+import { createMediaBackend } from '../lib/mediaBackend';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  MAX_LONG_EDGE_OPTIONS,
+  MAX_UPLOAD_BYTES,
+  OUTPUT_FORMATS,
+  isImageFile,
+  preprocessImage,
+  type OutputFormat,
+  type PreprocessOptions,
+} from '../lib/preprocess';
+import { DEFAULT_PRESET_ID, OUTPUT_PRESETS } from '../lib/presets';
+import {
+  BLEED_OPTIONS,
+  DEFAULT_PRINT_OPTIONS,
+  PRINT_SIZES,
+  createPrintPdf,
+  getPrintSize,
+  type PrintOptions,
+} from '../lib/print';
+import type { ProjectState } from '../lib/projects';
+import { RENDER_DEBOUNCE_MS, loadRenderedImage, type RenderStatus } from '../lib/renderStatus';
+import { COLLAGE_THEMES, DEFAULT_THEME_ID, getCollageTheme } from '../lib/themes';
+import { UPLOAD_CONCURRENCY_OPTIONS } from '../lib/uploadQueue';
 
 type Photo = {
   publicId: string;
   url: string;
+  width?: number;
+  height?: number;
+  /** Original file name, shown and searched in the library */
+  fileName?: string;
+  /** ISO timestamps for sorting the library */
+  uploadedAt?: string;
+  takenAt?: string;
+  /** Faces detected at upload, used by auto-arrange */
+  faces?: FaceRegion[];
 };
 
-type Position = 'position1' | 'position2' | 'position3' | 'position4' | 'position5';
+// A photo placed in a slot, with its crop settings (focus, zoom, rotation, flip) and color adjustments
+type PlacedPhoto = Photo & {
+  crop?: PhotoCrop;
+  adjustments?: PhotoAdjustments;
+};
 
-type CollageLayout = {
-  position1: Photo | null; // Top Left
-  position2: Photo | null; // Top Center
-  position3: Photo | null; // Top Right
-  position4: Photo | null; // Bottom Left
-  position5: Photo | null; // Bottom Right
+// A file that was not uploaded, and why
+type UploadRejection = {
+  fileName: string;
+  reason: string;
 };
 
+// Slot index within the current layout template
+type Position = number;
+
+// Photos indexed by layout slot (same order as the template's slots)
+type CollageLayout = Array<PlacedPhoto | null>;
+
+/**
+ * Fits the photos already placed in a layout into a template with `slotCount` slots,
+ * keeping their order and dropping any that no longer fit
+ */
+function resizeLayout(layout: CollageLayout, slotCount: number): CollageLayout {
+  const placed = layout.filter((photo): photo is PlacedPhoto => photo !== null);
+  return Array.from({ length: slotCount }, (_, index) => placed[index] || null);
+}
+
+// Editor state for a fresh project
+function createEmptyProjectState(): ProjectState {
+  return {
+    familyName: 'Our Family',
+    photos: [],
+    layout: resizeLayout([], getLayoutTemplate(DEFAULT_LAYOUT_ID).slots.length),
+    layoutId: DEFAULT_LAYOUT_ID,
+    presetId: DEFAULT_PRESET_ID,
+    themeId: DEFAULT_THEME_ID,
+    greeting: DEFAULT_GREETING,
+    harmonizeColors: false,
+  };
+}
+
+/**
+ * Loads an image to read its natural size
+ * Resolves to undefined if the image cannot be loaded (e.g. it was deleted from Cloudinary)
+ */
+function loadImageSize(url: string): Promise<{ width: number; height: number } | undefined> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => resolve(undefined);
+    image.src = url;
+  });
+}
+
 export default function FamilyCollageApp() {
   const [familyName, setFamilyName] = useState('Our Family');
   const [photos, setPhotos] = useState<Photo[]>([]);
-  const [collageLayout, setCollageLayout] = useState<CollageLayout>({
-    position1: null,
-    position2: null,
-    position3: null,
-    position4: null,
-    position5: null,
-  });
+  const [layoutId, setLayoutId] = useState(DEFAULT_LAYOUT_ID);
+  const [presetId, setPresetId] = useState(DEFAULT_PRESET_ID);
+  const [themeId, setThemeId] = useState(DEFAULT_THEME_ID);
+  const [greeting, setGreeting] = useState<Greeting>(DEFAULT_GREETING);
+  const [collageLayout, setCollageLayout] = useState<CollageLayout>(() =>
+    resizeLayout([], getLayoutTemplate(DEFAULT_LAYOUT_ID).slots.length)
+  );
+  const [harmonizeColors, setHarmonizeColors] = useState(false);
+  // Undo/redo snapshots of the editor state
+  const [history, setHistory] = useState<History<ProjectState>>(() => createHistory(createEmptyProjectState()));
   const [copied, setCopied] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [isRegenerating, setIsRegenerating] = useState(false);
-  const [draggedPhoto, setDraggedPhoto] = useState<Photo | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  // The card section shows the in-browser preview, which updates instantly, or the backend's render
+  const [cardView, setCardView] = useState<'preview' | 'rendered'>('preview');
+  const [downloadingFormat, setDownloadingFormat] = useState<CollageImageFormat | null>(null);
+  const [printOptions, setPrintOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [isCreatingPdf, setIsCreatingPdf] = useState(false);
+  const [draggedPhoto, setDraggedPhoto] = useState<PlacedPhoto | null>(null);
+  const [draggedFromPosition, setDraggedFromPosition] = useState<Position | null>(null);
+  const [croppingPosition, setCroppingPosition] = useState<Position | null>(null);
+  const [adjustingPosition, setAdjustingPosition] = useState<Position | null>(null);
   const [hoveredPosition, setHoveredPosition] = useState<Position | null>(null);
+  const panStartRef = useRef<{ pointerX: number; pointerY: number; focalX: number; focalY: number } | null>(null);
   const [editedCollageUrl, setEditedCollageUrl] = useState<string>('');
+  const [openUrl, setOpenUrl] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [uploadRejections, setUploadRejections] = useState<UploadRejection[]>([]);
+  const [collageUrl, setCollageUrl] = useState('');
+  // The rendered card follows the name and greeting once typing pauses, not on every keystroke
+  const [renderedText, setRenderedText] = useState({ familyName, greeting });
+  // Last render that loaded, kept on screen while the next one renders
+  const [shownCollageUrl, setShownCollageUrl] = useState('');
+  const [renderStatus, setRenderStatus] = useState<RenderStatus>({ state: 'idle' });
 
   const cloudName = import.meta.env.PUBLIC_CLOUDINARY_CLOUD_NAME || '';
   const uploadPreset = import.meta.env.PUBLIC_CLOUDINARY_UPLOAD_PRESET || '';
+  // Collage URLs are signed by the server; any edit to a signed URL breaks it, so the URL can't be edited
+  const signedUrls = import.meta.env.PUBLIC_CLOUDINARY_SIGNED_URLS === 'true';
+  // Uploads are signed by the server unless the unsigned preset is explicitly allowed
+  const unsignedUploads = import.meta.env.PUBLIC_CLOUDINARY_UNSIGNED_UPLOADS === 'true';
+  // Cloudinary, or the offline local backend (PUBLIC_MEDIA_BACKEND=local, or no cloud name configured)
+  const [mediaBackend] = useState(() =>
+    createMediaBackend({ kind: import.meta.env.PUBLIC_MEDIA_BACKEND, cloudName, uploadPreset, signedUrls, unsignedUploads })
+  );
+  const isCloudinary = mediaBackend.kind === 'cloudinary';
 
-  const handleUpload = (info: { public_id: string; secure_url: string }) => {
-    const newPhoto = { publicId: info.public_id, url: info.secure_url };
-    setPhotos((prev) => {
-      // Limit to 5 photos maximum
-      if (prev.length >= 5) return prev;
-      return [...prev, newPhoto];
-    });
+  // Everything that is saved with a project and covered by undo/redo
+  const editorState: ProjectState = {
+    familyName,
+    photos,
+    layout: collageLayout,
+    layoutId,
+    presetId,
+    themeId,
+    greeting,
+    harmonizeColors,
+  };
+
+  const {
+    savedProjects,
+    projectId,
+    projectName,
+    setProjectName,
+    displayName,
+    saveFailed,
+    importErrors,
+    dismissImportErrors,
+    openProject,
+    handleNewProject,
+    handleDuplicateProject,
+    handleDeleteProject,
+    handleExportProject,
+    handleImportProject,
+  } = useSavedProjects({
+    editorState,
+    mediaBackend,
+    createEmptyState: createEmptyProjectState,
+    onOpen: (state) => {
+      applyProjectState(state);
+      setHistory(createHistory(state));
+    },
+  });
+
+  // Uploads go to the open project's folder; a new project gets its ID on first save
+  const uploadQueue = useUploadQueue((file, options) =>
+    mediaBackend.upload(file, { ...options, projectId: projectId ?? undefined })
+  );
+
+  const editorStateKey = JSON.stringify(editorState);
+  const hasUnrecordedChanges = editorStateKey !== JSON.stringify(history.present);
+  const canUndo = history.past.length > 0 || hasUnrecordedChanges;
+  // A change that has not been recorded yet will clear the redo steps anyway
+  const canRedo = history.future.length > 0 && !hasUnrecordedChanges;
+
+  const template = getLayoutTemplate(layoutId);
+  const collageOptions: CollageOptions = { layoutId, presetId, themeId, greeting, harmonizeColors };
+  const { photoArea, textLines } = getCollageGeometry(collageOptions, familyName);
+  const isTextTruncated = textLines.some((line) => line.truncated);
+  const photoAreaRatio = photoArea.width / photoArea.height;
+  // Placed photos in slot order
+  const photosForCollage = collageLayout.filter((photo): photo is PlacedPhoto => photo !== null);
+  const slotCount = template.slots.length;
+  const emptySlotCount = slotCount - photosForCollage.length;
+  // Use edited URL if available, otherwise use generated URL
+  const displayUrl = editedCollageUrl || collageUrl;
+
+  // Record a history step once the editor has been still for a moment,
+  // so typing a name or dragging a slider becomes one undo step rather than one per keystroke
+  useEffect(() => {
+    if (!hasUnrecordedChanges) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setHistory((prev) => recordHistory(prev, editorState));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [editorStateKey, history]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac; Ctrl+Y also redoes)
+  // Text fields keep their own undo, and their changes still become history steps
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setRenderedText({ familyName, greeting }), RENDER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [familyName, greeting]);
+
+  // Render the card with the media backend: Cloudinary only builds the URL, the local backend draws it
+  useEffect(() => {
+    let isCurrent = true;
+    mediaBackend
+      .renderCollage(collageLayout, renderedText.familyName, { ...collageOptions, greeting: renderedText.greeting })
+      .then((url) => {
+        if (isCurrent) setCollageUrl(url);
+      })
+      .catch((error) => {
+        console.error('Failed to render the collage:', error);
+        // Keep the last render on screen, with the reason it could not be updated
+        if (isCurrent) setRenderStatus({ state: 'error', reason: error instanceof Error ? error.message : String(error) });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [collageLayout, renderedText, layoutId, presetId, themeId, harmonizeColors]);
+
+  // Update edited URL when the generated collage URL changes (when photos/family name changes)
+  // This allows the user to edit the URL while still getting updates when the collage regenerates
+  useEffect(() => {
+    if (collageUrl) {
+      setEditedCollageUrl(collageUrl);
+    } else {
+      setEditedCollageUrl('');
+    }
+  }, [collageUrl]);
+
+  // Track the real load of the rendered card; the previous render stays visible until the new one arrives
+  useEffect(() => {
+    if (!displayUrl) {
+      setShownCollageUrl('');
+      setRenderStatus({ state: 'idle' });
+      return;
+    }
+    let isCurrent = true;
+    setRenderStatus({ state: 'loading' });
+    loadRenderedImage(displayUrl)
+      .then(() => {
+        if (!isCurrent) return;
+        setShownCollageUrl(displayUrl);
+        setRenderStatus({ state: 'ready' });
+      })
+      .catch((error) => {
+        if (isCurrent) setRenderStatus({ state: 'error', reason: error instanceof Error ? error.message : String(error) });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [displayUrl]);
+
+  // The library has no cap; only the collage slots are limited by the layout template
+  // Photos uploaded from this device carry EXIF read before upload; widget uploads carry Cloudinary's copy (if the preset returns it)
+  const handleUpload = (info: UploadWidgetResult, exif: ExifMetadata = {}) => {
+    const newPhoto: Photo = {
+      publicId: info.public_id,
+      url: info.secure_url,
+      width: info.width,
+      height: info.height,
+      fileName: info.original_filename && info.format ? `${info.original_filename}.${info.format}` : info.original_filename,
+      uploadedAt: info.created_at || new Date().toISOString(),
+      takenAt: exif.takenAt || parseExifDate(info.image_metadata?.DateTimeOriginal),
+      faces: info.faces,
+    };
+    setPhotos((prev) => (prev.some((photo) => photo.publicId === newPhoto.publicId) ? prev : [...prev, newPhoto]));
     
     // Auto-assign to first available position
     setCollageLayout((prev) => {
-      if (!prev.position1) return { ...prev, position1: newPhoto };
-      if (!prev.position2) return { ...prev, position2: newPhoto };
-      if (!prev.position3) return { ...prev, position3: newPhoto };
-      if (!prev.position4) return { ...prev, position4: newPhoto };
-      if (!prev.position5) return { ...prev, position5: newPhoto };
-      return prev;
+      const emptyIndex = prev.indexOf(null);
+      if (emptyIndex === -1) return prev;
+      const newLayout = [...prev];
+      newLayout[emptyIndex] = newPhoto;
+      return newLayout;
     });
   };
 
-  const [draggedFromPosition, setDraggedFromPosition] = useState<Position | null>(null);
+  const updateGreeting = (changes: Partial<Greeting>) => {
+    setGreeting((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateLineStyle = (styleKey: 'titleStyle' | 'messageStyle', changes: TextStyle) => {
+    setGreeting((prev) => ({ ...prev, [styleKey]: { ...prev[styleKey], ...changes } }));
+  };
+
+  const renderLineStyleControls = (styleKey: 'titleStyle' | 'messageStyle', label: string) => {
+    const style = greeting[styleKey] || {};
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          aria-label={`${label} font`}
+          value={style.fontFamily || ''}
+          onChange={(e) => updateLineStyle(styleKey, { fontFamily: e.target.value || undefined })}
+          className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white"
+        >
+          <option value="">Theme font</option>
+          {GREETING_FONTS.map((font) => (
+            <option key={font} value={font}>{font}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          aria-label={`${label} size`}
+          min={12}
+          max={200}
+          value={style.fontSize ?? ''}
+          onChange={(e) => updateLineStyle(styleKey, { fontSize: e.target.value ? Number(e.target.value) : undefined })}
+          className="w-24 px-2 py-1 border-2 border-green-300 rounded-lg"
+          placeholder="Auto size"
+        />
+        <input
+          type="color"
+          aria-label={`${label} color`}
+          value={`#${style.color || getCollageTheme(themeId).font.color}`}
+          onChange={(e) => updateLineStyle(styleKey, { color: e.target.value.slice(1).toUpperCase() })}
+          className="w-10 h-8 border-2 border-green-300 rounded-lg cursor-pointer"
+        />
+        {(style.fontFamily || style.fontSize || style.color) && (
+          <button
+            type="button"
+            onClick={() => updateGreeting({ [styleKey]: undefined })}
+            className="text-xs font-semibold text-red-600 hover:text-red-700 underline"
+          >
+            Reset to theme
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const handleLayoutChange = (newLayoutId: string) => {
+    setCroppingPosition(null);
+    setAdjustingPosition(null);
+    setLayoutId(newLayoutId);
+    setCollageLayout((prev) => resizeLayout(prev, getLayoutTemplate(newLayoutId).slots.length));
+  };
 
-  const handlePhotoDragStart = (photo: Photo, fromPosition?: Position) => {
+  // Rebuild the editor from a collage URL made with this app (e.g. last year's card)
+  const handleOpenFromUrl = async (url: string) => {
+    const parsed = parseCollageUrl(url);
+    if (!parsed) {
+      alert('This URL was not made with the collage maker, or uses a layout that no longer exists.');
+      return;
+    }
+    if (parsed.cloudName !== cloudName) {
+      alert(`This card's photos are in another Cloudinary account (${parsed.cloudName}) and cannot be edited here.`);
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      // Manual crops are stored as pixel windows; the original photo sizes turn them back into focal points
+      const photoUrl = (publicId: string) => `https://res.cloudinary.com/${cloudName}/image/upload/${publicId}`;
+      const publicIds = Array.from(
+        new Set(parsed.photos.flatMap((photo) => (photo ? [photo.publicId] : [])))
+      );
+      const sizes: Record<string, { width: number; height: number }> = {};
+      await Promise.all(
+        publicIds.map(async (publicId) => {
+          const size = await loadImageSize(photoUrl(publicId));
+          if (size) {
+            sizes[publicId] = size;
+          }
+        })
+      );
+
+      const collage = parseCollageUrl(url, sizes)!;
+      const restoredLayout: CollageLayout = collage.photos.map((photo) =>
+        photo ? { ...photo, url: photoUrl(photo.publicId) } : null
+      );
+      const restoredPhotos: Photo[] = publicIds.map((publicId) => ({
+        publicId,
+        url: photoUrl(publicId),
+        width: sizes[publicId]?.width,
+        height: sizes[publicId]?.height,
+      }));
+
+      setCroppingPosition(null);
+      setAdjustingPosition(null);
+      if (collage.familyName) {
+        setFamilyName(collage.familyName);
+      }
+      setLayoutId(collage.options.layoutId);
+      setPresetId(collage.options.presetId);
+      setThemeId(collage.options.themeId);
+      setGreeting(collage.options.greeting);
+      setHarmonizeColors(collage.options.harmonizeColors);
+      setCollageLayout(restoredLayout);
+      // The card's photos go first in the library, followed by any photos already uploaded
+      setPhotos((prev) =>
+        [...restoredPhotos, ...prev.filter((photo) => !publicIds.includes(photo.publicId))]
+      );
+      setOpenUrl('');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const applyProjectState = (state: ProjectState) => {
+    setCroppingPosition(null);
+    setAdjustingPosition(null);
+    setFamilyName(state.familyName);
+    setPhotos(state.photos);
+    setCollageLayout(state.layout);
+    setLayoutId(state.layoutId);
+    setPresetId(state.presetId);
+    setThemeId(state.themeId);
+    setGreeting(state.greeting);
+    setHarmonizeColors(state.harmonizeColors);
+  };
+
+  const handleUndo = () => {
+    // Record a pending change first, so undo reverts it instead of skipping past it
+    const current = hasUnrecordedChanges ? recordHistory(history, editorState) : history;
+    if (current.past.length === 0) return;
+    const next = undoHistory(current);
+    setHistory(next);
+    applyProjectState(next.present);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const next = redoHistory(history);
+    setHistory(next);
+    applyProjectState(next.present);
+  };
+
+  const handlePhotoDragStart = (photo: PlacedPhoto, fromPosition?: Position) => {
     setDraggedPhoto(photo);
-    setDraggedFromPosition(fromPosition || null);
+    setDraggedFromPosition(fromPosition ?? null);
   };
 
   const handlePhotoDragEnd = () => {
@@ -75,15 +509,15 @@ export default function FamilyCollageApp() {
   const handlePositionDrop = (position: Position) => {
     if (draggedPhoto) {
       setCollageLayout((prev) => {
-        const newLayout = { ...prev };
+        const newLayout = [...prev];
         
         // If dragging from another position, clear that position
-        if (draggedFromPosition && draggedFromPosition !== position) {
+        if (draggedFromPosition !== null && draggedFromPosition !== position) {
           newLayout[draggedFromPosition] = null;
         }
         
         // If target position has a photo, swap them
-        if (draggedFromPosition && prev[position]) {
+        if (draggedFromPosition !== null && prev[position]) {
           newLayout[draggedFromPosition] = prev[position];
         }
         
@@ -112,10 +546,13 @@ export default function FamilyCollageApp() {
   };
 
   const removeFromPosition = (position: Position) => {
-    setCollageLayout((prev) => ({
-      ...prev,
-      [position]: null,
-    }));
+    if (croppingPosition === position) {
+      setCroppingPosition(null);
+    }
+    if (adjustingPosition === position) {
+      setAdjustingPosition(null);
+    }
+    setCollageLayout((prev) => prev.map((photo, index) => (index === position ? null : photo)));
   };
 
   const removePhoto = (photoToRemove: Photo) => {
@@ -123,48 +560,340 @@ export default function FamilyCollageApp() {
     setPhotos((prev) => prev.filter((photo) => photo.publicId !== photoToRemove.publicId));
     
     // Remove from collage layout if it's in a position
-    setCollageLayout((prev) => {
-      const newLayout = { ...prev };
-      if (prev.position1?.publicId === photoToRemove.publicId) {
-        newLayout.position1 = null;
-      }
-      if (prev.position2?.publicId === photoToRemove.publicId) {
-        newLayout.position2 = null;
-      }
-      if (prev.position3?.publicId === photoToRemove.publicId) {
-        newLayout.position3 = null;
-      }
-      if (prev.position4?.publicId === photoToRemove.publicId) {
-        newLayout.position4 = null;
-      }
-      if (prev.position5?.publicId === photoToRemove.publicId) {
-        newLayout.position5 = null;
-      }
-      return newLayout;
+    setCollageLayout((prev) =>
+      prev.map((photo) => (photo?.publicId === photoToRemove.publicId ? null : photo))
+    );
+  };
+
+  // Fill the empty slots, in slot order, with photos that are not in the collage yet
+  const handleAddToCollage = (photosToAdd: Photo[]) => {
+    const placedIds = new Set(collageLayout.flatMap((photo) => (photo ? [photo.publicId] : [])));
+    const queue = photosToAdd.filter((photo) => !placedIds.has(photo.publicId));
+    const emptyCount = collageLayout.filter((photo) => photo === null).length;
+    let next = 0;
+    setCollageLayout(collageLayout.map((photo) => photo || (next < queue.length ? queue[next++] : null)));
+    if (queue.length > emptyCount) {
+      alert(`Only ${emptyCount} of the selected photos fit in the empty slots. Pick a larger layout to use more.`);
+    }
+  };
+
+  /**
+   * Ranks arrangements of the collage photos by how well each fits its slot's shape (see rankArrangements)
+   * Empty slots are filled from the library too; a full collage is only reordered.
+   */
+  const getRankedLayouts = (): CollageLayout[] => {
+    const placed = collageLayout.filter((photo): photo is PlacedPhoto => photo !== null);
+    const placedIds = new Set(placed.map((photo) => photo.publicId));
+    const candidates: PlacedPhoto[] = placed.length < collageLayout.length
+      ? [...placed, ...photos.filter((photo) => !placedIds.has(photo.publicId))]
+      : placed;
+    const { slots } = getCollageGeometry(collageOptions, familyName);
+    return rankArrangements(candidates, slots).map((arrangement) =>
+      arrangement.map((index) => (index === null ? null : candidates[index]))
+    );
+  };
+
+  const applyArrangedLayout = (layout: CollageLayout) => {
+    setCroppingPosition(null);
+    setAdjustingPosition(null);
+    setCollageLayout(layout);
+  };
+
+  const handleAutoArrange = () => {
+    const [best] = getRankedLayouts();
+    if (best) applyArrangedLayout(best);
+  };
+
+  // Steps to the next-best arrangement after the current one, wrapping around to the best
+  const handleShuffle = () => {
+    const ranked = getRankedLayouts();
+    const layoutKey = (layout: CollageLayout) => layout.map((photo) => photo?.publicId ?? '').join('|');
+    const current = ranked.findIndex((layout) => layoutKey(layout) === layoutKey(collageLayout));
+    const next = ranked[(current + 1) % ranked.length];
+    if (next) applyArrangedLayout(next);
+  };
+
+
+  const updateCrop = (position: Position, changes: Partial<PhotoCrop>) => {
+    setCollageLayout((prev) =>
+      prev.map((photo, index) =>
+        index === position && photo
+          ? { ...photo, crop: { ...DEFAULT_CROP, ...photo.crop, ...changes } }
+          : photo
+      )
+    );
+  };
+
+  const updateAdjustments = (position: Position, changes: Partial<PhotoAdjustments>) => {
+    setCollageLayout((prev) =>
+      prev.map((photo, index) =>
+        index === position && photo
+          ? { ...photo, adjustments: { ...DEFAULT_ADJUSTMENTS, ...photo.adjustments, ...changes } }
+          : photo
+      )
+    );
+  };
+
+  const resetCrop = (position: Position) => {
+    setCollageLayout((prev) =>
+      prev.map((photo, index) => (index === position && photo ? { ...photo, crop: undefined } : photo))
+    );
+  };
+
+  // Panning inside a slot moves the manual focal point (dragging right reveals more of the left side)
+  const handlePanStart = (e: React.PointerEvent, crop: PhotoCrop) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStartRef.current = {
+      pointerX: e.clientX,
+      pointerY: e.clientY,
+      focalX: crop.focalX,
+      focalY: crop.focalY,
+    };
+  };
+
+  const handlePanMove = (e: React.PointerEvent, position: Position) => {
+    const start = panStartRef.current;
+    if (!start) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+    updateCrop(position, {
+      gravity: 'manual',
+      focalX: clamp01(start.focalX - (e.clientX - start.pointerX) / rect.width),
+      focalY: clamp01(start.focalY - (e.clientY - start.pointerY) / rect.height),
     });
   };
 
-  const getPhotosInLayout = (): Photo[] => {
-    // Return photos in order: position1, position2, position3, position4, position5
-    const photosInLayout: Photo[] = [];
-    if (collageLayout.position1) photosInLayout.push(collageLayout.position1);
-    if (collageLayout.position2) photosInLayout.push(collageLayout.position2);
-    if (collageLayout.position3) photosInLayout.push(collageLayout.position3);
-    if (collageLayout.position4) photosInLayout.push(collageLayout.position4);
-    if (collageLayout.position5) photosInLayout.push(collageLayout.position5);
-    return photosInLayout;
+  const handlePanEnd = () => {
+    panStartRef.current = null;
   };
 
-  const renderPositionSlot = (position: Position, index: number) => {
+  /**
+   * Renders a slot photo the way Cloudinary will crop it:
+   * the outer layer zooms around the focal point, the image itself is rotated/flipped
+   * and positioned with object-position (sized to the slot's swapped sides when sideways)
+   */
+  const renderCroppedImage = (photo: PlacedPhoto, alt: string) => {
+    const crop = photo.crop || DEFAULT_CROP;
+    const isManual = crop.gravity === 'manual';
+    const sourceFocal = isManual ? getSourceFocalPoint(crop) : { x: 0.5, y: 0.5 };
+    const isSideways = crop.rotation === 90 || crop.rotation === 270;
+    return (
+      <div className="absolute inset-0 overflow-hidden rounded-xl" style={{ containerType: 'size' }}>
+        <div
+          className="absolute inset-0"
+          style={{
+            transform: `scale(${crop.zoom})`,
+            transformOrigin: isManual ? `${crop.focalX * 100}% ${crop.focalY * 100}%` : 'center',
+          }}
+        >
+          <img
+            src={photo.url}
+            alt={alt}
+            draggable={false}
+            className="absolute top-1/2 left-1/2 max-w-none object-cover"
+            style={{
+              width: isSideways ? '100cqh' : '100%',
+              height: isSideways ? '100cqw' : '100%',
+              objectPosition: `${sourceFocal.x * 100}% ${sourceFocal.y * 100}%`,
+              // CSS approximation of the Cloudinary effects, so adjustments preview instantly
+              filter: getAdjustmentCssFilter(photo.adjustments),
+              transform: `translate(-50%, -50%) rotate(${crop.rotation}deg) scale(${crop.flipHorizontal ? -1 : 1}, ${crop.flipVertical ? -1 : 1})`,
+            }}
+          />
+        </div>
+        {photo.adjustments?.filter === 'vintage' && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={{ background: 'radial-gradient(ellipse at center, transparent 55%, rgba(0, 0, 0, 0.45) 100%)' }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderAdjustmentsPanel = (position: Position) => {
+    const photo = collageLayout[position];
+    if (!photo) return null;
+    const adjustments = photo.adjustments || DEFAULT_ADJUSTMENTS;
+    const sliders: Array<{ key: 'brightness' | 'contrast' | 'saturation'; label: string }> = [
+      { key: 'brightness', label: 'Brightness' },
+      { key: 'contrast', label: 'Contrast' },
+      { key: 'saturation', label: 'Saturation' },
+    ];
+    return (
+      <div className="mt-6 p-4 bg-white border-2 border-green-300 rounded-lg shadow-md space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-green-700">Adjust Position {position + 1}</h3>
+          <button
+            type="button"
+            onClick={() => setAdjustingPosition(null)}
+            className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white text-sm font-bold"
+          >
+            Done
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Photo filter">
+          {PHOTO_FILTERS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={adjustments.filter === option.value}
+              onClick={() => updateAdjustments(position, { filter: option.value })}
+              className={`px-3 py-1 rounded-lg border-2 text-sm font-semibold transition-colors duration-200 ${
+                adjustments.filter === option.value
+                  ? 'border-red-500 bg-red-600 text-white'
+                  : 'border-green-300 bg-white text-gray-700 hover:border-green-400'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {sliders.map((slider) => (
+          <label key={slider.key} className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+            <span className="w-24">{slider.label}</span>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              value={adjustments[slider.key]}
+              onChange={(e) => updateAdjustments(position, { [slider.key]: Number(e.target.value) })}
+              className="flex-1 accent-green-600"
+            />
+            <span className="w-10 text-right font-mono text-xs">{adjustments[slider.key]}</span>
+          </label>
+        ))}
+        <div className="flex flex-wrap items-center gap-4 text-sm font-medium text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={adjustments.autoImprove}
+              onChange={(e) => updateAdjustments(position, { autoImprove: e.target.checked })}
+              className="w-4 h-4 accent-green-600"
+            />
+            Auto-improve
+          </label>
+          <label className="flex items-center gap-2" title="Normalizes color, brightness and contrast of every photo in the card (not shown in this preview)">
+            <input
+              type="checkbox"
+              checked={harmonizeColors}
+              onChange={(e) => setHarmonizeColors(e.target.checked)}
+              className="w-4 h-4 accent-green-600"
+            />
+            Match all photos
+          </label>
+          <button
+            type="button"
+            onClick={() => updateAdjustments(position, DEFAULT_ADJUSTMENTS)}
+            className="ml-auto text-xs font-semibold text-red-600 hover:text-red-700 underline"
+          >
+            Reset adjustments
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderPositionSlot = (position: Position) => {
     const photo = collageLayout[position];
     const isHovered = hoveredPosition === position;
-    const positionLabels = {
-      position1: 'Position 1',
-      position2: 'Position 2',
-      position3: 'Position 3',
-      position4: 'Position 4',
-      position5: 'Position 5',
-    };
+    const positionLabel = `Position ${position + 1}`;
+
+    if (photo && croppingPosition === position) {
+      const crop = photo.crop || DEFAULT_CROP;
+      const gravityOptions: Array<{ value: CropGravity; label: string }> = [
+        { value: 'auto', label: 'Auto' },
+        { value: 'faces', label: 'Faces' },
+        { value: 'manual', label: 'Manual' },
+      ];
+      return (
+        <div
+          className="w-full h-full relative cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={(e) => handlePanStart(e, crop)}
+          onPointerMove={(e) => handlePanMove(e, position)}
+          onPointerUp={handlePanEnd}
+          onPointerCancel={handlePanEnd}
+        >
+          {renderCroppedImage(photo, `${positionLabel} position`)}
+
+          {/* Crop controls; pointer events here must not start a pan */}
+          <div
+            className="absolute bottom-0 left-0 right-0 bg-white bg-opacity-95 p-2 space-y-1.5 text-xs rounded-b-xl shadow-lg cursor-default"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex flex-wrap items-center gap-1">
+              {gravityOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => updateCrop(position, { gravity: option.value })}
+                  className={`px-2 py-0.5 rounded font-semibold border ${
+                    crop.gravity === option.value
+                      ? 'bg-red-600 text-white border-red-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:border-green-400'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 font-semibold text-gray-700">
+              Zoom
+              <input
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.05}
+                value={crop.zoom}
+                onChange={(e) => updateCrop(position, { zoom: Number(e.target.value) })}
+                className="flex-1 accent-green-600"
+              />
+            </label>
+            <div className="flex flex-wrap items-center gap-1">
+              <button
+                type="button"
+                onClick={() => updateCrop(position, { rotation: ((crop.rotation + 90) % 360) as PhotoCrop['rotation'] })}
+                className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:border-green-400 font-semibold text-gray-700"
+                title="Rotate 90° clockwise"
+              >
+                ↻ Rotate
+              </button>
+              <button
+                type="button"
+                onClick={() => updateCrop(position, { flipHorizontal: !crop.flipHorizontal })}
+                className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:border-green-400 font-semibold text-gray-700"
+                title="Flip horizontally"
+              >
+                ⇆ Flip
+              </button>
+              <button
+                type="button"
+                onClick={() => updateCrop(position, { flipVertical: !crop.flipVertical })}
+                className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:border-green-400 font-semibold text-gray-700"
+                title="Flip vertically"
+              >
+                ⇅ Flip
+              </button>
+              <button
+                type="button"
+                onClick={() => resetCrop(position)}
+                className="px-2 py-0.5 rounded font-semibold text-red-600 hover:text-red-700 underline"
+              >
+                Reset
+              </button>
+              <button
+                type="button"
+                onClick={() => setCroppingPosition(null)}
+                className="ml-auto px-3 py-0.5 rounded bg-green-600 hover:bg-green-700 text-white font-bold"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
 
     if (photo) {
       return (
@@ -177,11 +906,7 @@ export default function FamilyCollageApp() {
           }}
           onDragEnd={handlePhotoDragEnd}
         >
-          <img
-            src={photo.url}
-            alt={`${positionLabels[position]} position`}
-            className="w-full h-full object-cover rounded-xl transition-transform duration-200 group-hover:scale-105"
-          />
+          {renderCroppedImage(photo, `${positionLabel} position`)}
           <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all duration-200 rounded-xl" />
           
           {/* Drag handle indicator */}
@@ -204,11 +929,35 @@ export default function FamilyCollageApp() {
           >
             ×
           </button>
+
+          {/* Crop button */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setCroppingPosition(position);
+            }}
+            className="absolute top-2 right-11 h-7 px-2 bg-white hover:bg-green-50 text-gray-700 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-200 opacity-0 group-hover:opacity-100 shadow-lg z-10"
+            title="Adjust focus, zoom, rotation and flip"
+          >
+            ✂ Crop
+          </button>
+
+          {/* Adjustments button */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setAdjustingPosition(position);
+            }}
+            className="absolute top-11 right-2 h-7 px-2 bg-white hover:bg-green-50 text-gray-700 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-200 opacity-0 group-hover:opacity-100 shadow-lg z-10"
+            title="Filters and color adjustments"
+          >
+            🎨 Adjust
+          </button>
           
           {/* Position label */}
           <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black via-black/80 to-transparent text-white text-xs font-semibold py-2 px-3 rounded-b-xl">
             <div className="flex items-center justify-between">
-              <span>{positionLabels[position]}</span>
+              <span>{positionLabel}</span>
               <span className="text-xs opacity-75">Drag to move</span>
             </div>
           </div>
@@ -234,7 +983,7 @@ export default function FamilyCollageApp() {
             {isHovered ? (
               <span className="text-red-600 font-bold">Drop here to add photo</span>
             ) : (
-              positionLabels[position]
+              positionLabel
             )}
           </span>
         </div>
@@ -243,50 +992,39 @@ export default function FamilyCollageApp() {
   };
 
   const handleFiles = async (files: FileList | File[]) => {
-    if (!cloudName || !uploadPreset) {
+    if (isCloudinary && (!cloudName || (unsignedUploads && !uploadPreset))) {
       alert('Cloudinary configuration missing. Please check your environment variables.');
       return;
     }
 
-    const imageFiles = Array.from(files).filter((file) => file.type.startsWith('image/'));
-    
+    const allFiles = Array.from(files);
+    const imageFiles = allFiles.filter(isImageFile);
+    const rejections: UploadRejection[] = allFiles
+      .filter((file) => !isImageFile(file))
+      .map((file) => ({ fileName: file.name, reason: 'Not an image file' }));
+    setUploadRejections(rejections);
+
     if (imageFiles.length === 0) {
       alert('Please drop only image files.');
       return;
     }
 
-    // Check total photo count (limit to 5)
-    const currentCount = photos.length;
-    const maxAllowed = 5 - currentCount;
-    
-    if (maxAllowed <= 0) {
-      alert('You have already uploaded 5 photos. Remove some photos before uploading more.');
-      return;
-    }
+    setIsPreparing(true);
 
-    const filesToUpload = imageFiles.slice(0, maxAllowed);
-    if (filesToUpload.length < imageFiles.length) {
-      alert(`Only ${maxAllowed} more photo${maxAllowed !== 1 ? 's' : ''} can be uploaded. The first ${maxAllowed} will be uploaded.`);
+    // Photos are prepared one at a time (decoding several large photos at once can run a phone out of memory);
+    // each is queued as soon as it is ready, and the queue reports its progress and failures per file
+    const queue = uploadQueue.getQueue();
+    for (const file of imageFiles) {
+      const prepared = await preprocessImage(file, preprocessOptions);
+      if (prepared.ok) {
+        queue.add(prepared.file, (result) => handleUpload(result, prepared.exif));
+      } else {
+        rejections.push({ fileName: file.name, reason: prepared.reason });
+      }
     }
 
-    setIsUploading(true);
-
-    try {
-      const uploadPromises = filesToUpload.map((file) =>
-        uploadToCloudinary(file, cloudName, uploadPreset)
-      );
-
-      const results = await Promise.all(uploadPromises);
-      
-      results.forEach((result) => {
-        handleUpload(result);
-      });
-    } catch (error) {
-      console.error('Upload error:', error);
-      alert('Failed to upload some images. Please try again.');
-    } finally {
-      setIsUploading(false);
-    }
+    setUploadRejections([...rejections]);
+    setIsPreparing(false);
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -327,12 +1065,12 @@ export default function FamilyCollageApp() {
   };
 
   const handleCopyUrl = async () => {
-    if (!cloudName || photosForCollage.length !== 5) {
-      alert('Please fill all 5 photo slots to generate the collage URL.');
+    if (!cloudName || photosForCollage.length === 0) {
+      alert('Please add at least one photo to the collage to generate the collage URL.');
       return;
     }
 
-    const collageUrl = buildCollageUrl(cloudName, photosForCollage, familyName);
+    const collageUrl = buildCollageUrl(cloudName, collageLayout, familyName, collageOptions);
 
     try {
       await navigator.clipboard.writeText(collageUrl);
@@ -344,47 +1082,52 @@ export default function FamilyCollageApp() {
     }
   };
 
-  const photosForCollage = getPhotosInLayout();
-  const collageUrl = cloudName && photosForCollage.length === 5
-    ? buildCollageUrl(cloudName, photosForCollage, familyName)
-    : '';
 
-  // Show loader when collage is being regenerated (when layout or family name changes)
-  const prevCollageLayoutRef = useRef<CollageLayout>(collageLayout);
-  const prevFamilyNameRef = useRef<string>(familyName);
-  
-  useEffect(() => {
-    const layoutChanged = JSON.stringify(prevCollageLayoutRef.current) !== JSON.stringify(collageLayout);
-    const nameChanged = prevFamilyNameRef.current !== familyName;
-    
-    if ((layoutChanged || nameChanged) && photosForCollage.length === 5 && collageUrl) {
-      setIsRegenerating(true);
-      const timer = setTimeout(() => {
-        setIsRegenerating(false);
-      }, 800); // Show loader for 800ms
-      
-      prevCollageLayoutRef.current = collageLayout;
-      prevFamilyNameRef.current = familyName;
-      
-      return () => clearTimeout(timer);
+  // Drawn in the browser, so downloads work even when the Cloudinary render fails
+  const handleDownloadImage = async (format: CollageImageFormat) => {
+    setDownloadingFormat(format);
+    try {
+      const blob = await renderCollageImage(collageLayout, familyName, collageOptions, {
+        format,
+        backgroundUrl: mediaBackend.getBackgroundUrl(getCollageTheme(themeId).backgroundId),
+        webFonts: mediaBackend.webFonts,
+      });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = getCollageImageFileName(displayName, format);
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Failed to render the image:', error);
+      alert('Could not create the image. If the photos are on another site, it may not allow them to be downloaded.');
+    } finally {
+      setDownloadingFormat(null);
     }
-    
-    prevCollageLayoutRef.current = collageLayout;
-    prevFamilyNameRef.current = familyName;
-  }, [collageLayout, familyName, photosForCollage.length, collageUrl]);
+  };
 
-  // Update edited URL when the generated collage URL changes (when photos/family name changes)
-  // This allows the user to edit the URL while still getting updates when the collage regenerates
-  useEffect(() => {
-    if (collageUrl) {
-      setEditedCollageUrl(collageUrl);
-    } else {
-      setEditedCollageUrl('');
+  const handleDownloadPrintPdf = async () => {
+    setIsCreatingPdf(true);
+    try {
+      const blob = await createPrintPdf(
+        collageLayout,
+        familyName,
+        collageOptions,
+        printOptions,
+        mediaBackend.getBackgroundUrl(getCollageTheme(themeId).backgroundId),
+        mediaBackend.webFonts
+      );
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = getCollageImageFileName(`${displayName} print`, 'application/pdf');
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Failed to create the print PDF:', error);
+      alert('Could not create the print PDF. If the photos are on another site, it may not allow them to be downloaded.');
+    } finally {
+      setIsCreatingPdf(false);
     }
-  }, [collageUrl]);
-
-  // Use edited URL if available, otherwise use generated URL
-  const displayUrl = editedCollageUrl || collageUrl;
+  };
 
   return (
     <div className="space-y-8">
@@ -400,6 +1143,122 @@ export default function FamilyCollageApp() {
         </p>
       </header>
 
+      {/* Saved projects */}
+      <section className="bg-white rounded-xl shadow-lg border-2 border-green-200 p-4 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[12rem] space-y-1">
+            <label htmlFor="project-name" className="block text-sm font-semibold text-red-700">
+              Project
+            </label>
+            <input
+              id="project-name"
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="w-full px-3 py-2 border-2 border-green-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+              placeholder={`${familyName || 'Untitled'} ${greeting.year ?? new Date().getFullYear()}`}
+            />
+          </div>
+          <button
+            onClick={handleUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            ↷ Redo
+          </button>
+          <button
+            onClick={handleNewProject}
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 transition-colors"
+          >
+            New
+          </button>
+          <button
+            onClick={handleDuplicateProject}
+            disabled={!projectId}
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={handleExportProject}
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 transition-colors"
+          >
+            Export project
+          </button>
+          <button
+            onClick={() => projectFileInputRef.current?.click()}
+            className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-50 transition-colors"
+          >
+            Import project
+          </button>
+          <input
+            ref={projectFileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportProject}
+            className="hidden"
+          />
+        </div>
+        {importErrors.length > 0 && (
+          <div className="p-3 bg-red-50 border-2 border-red-300 rounded-lg text-sm text-red-800" role="alert">
+            <div className="flex justify-between gap-2">
+              <strong>This project file could not be imported:</strong>
+              <button onClick={dismissImportErrors} className="font-bold" aria-label="Dismiss">
+                ×
+              </button>
+            </div>
+            <ul className="mt-1 list-disc list-inside font-mono text-xs">
+              {importErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <p className="text-xs text-gray-600" role="status">
+          {saveFailed
+            ? 'Could not save: your browser storage is full or disabled.'
+            : projectId
+              ? 'Changes are saved automatically in this browser.'
+              : 'Add a photo to start saving this project automatically.'}
+        </p>
+
+        {savedProjects.length > 0 && (
+          <ul className="divide-y divide-green-100 border-2 border-green-100 rounded-lg">
+            {savedProjects.map((project) => (
+              <li key={project.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <button
+                  onClick={() => openProject(project)}
+                  disabled={project.id === projectId}
+                  className="flex-1 text-left font-medium text-gray-800 hover:text-green-700 disabled:text-green-700 disabled:font-bold"
+                >
+                  {project.name}
+                  {project.id === projectId && <span className="ml-2 text-xs font-normal">(open)</span>}
+                </button>
+                <span className="text-xs text-gray-500">
+                  {new Date(project.updatedAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => handleDeleteProject(project)}
+                  className="text-xs font-semibold text-red-600 hover:text-red-800"
+                  aria-label={`Delete ${project.name}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
       {/* Controls */}
       <section className="bg-white rounded-xl shadow-lg border-2 border-red-100 p-6 space-y-4">
         <div className="space-y-2">
@@ -416,6 +1275,134 @@ export default function FamilyCollageApp() {
           />
         </div>
 
+        <fieldset className="space-y-3 border-2 border-green-200 rounded-lg p-4">
+          <legend className="px-1 text-sm font-semibold text-red-700">Greeting</legend>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!greeting.photoOnly}
+              onChange={(e) => updateGreeting({ photoOnly: e.target.checked })}
+              className="w-4 h-4 accent-green-600"
+            />
+            Photo-only print (no ribbon, no text)
+          </label>
+          {!greeting.photoOnly && (
+            <>
+              <div className="space-y-2">
+                <label htmlFor="greeting-title" className="block text-sm font-semibold text-red-700">
+                  Title
+                </label>
+                <input
+                  id="greeting-title"
+                  type="text"
+                  value={greeting.title}
+                  onChange={(e) => updateGreeting({ title: e.target.value })}
+                  className="w-full px-4 py-2 border-2 border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="{name} — Holiday {year}"
+                />
+                {renderLineStyleControls('titleStyle', 'Title')}
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="greeting-message" className="block text-sm font-semibold text-red-700">
+                  Second line (optional)
+                </label>
+                <input
+                  id="greeting-message"
+                  type="text"
+                  value={greeting.message || ''}
+                  onChange={(e) => updateGreeting({ message: e.target.value })}
+                  className="w-full px-4 py-2 border-2 border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="Love, Anna, Ben & Max"
+                />
+                {renderLineStyleControls('messageStyle', 'Second line')}
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="greeting-year" className="block text-sm font-semibold text-red-700">
+                  Year
+                </label>
+                <input
+                  id="greeting-year"
+                  type="number"
+                  value={greeting.year ?? ''}
+                  onChange={(e) => updateGreeting({ year: e.target.value ? Number(e.target.value) : undefined })}
+                  className="w-32 px-4 py-2 border-2 border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder={String(new Date().getFullYear())}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!greeting.wrapLongLines}
+                  onChange={(e) => updateGreeting({ wrapLongLines: e.target.checked })}
+                  className="w-4 h-4 accent-green-600"
+                />
+                Wrap long lines onto two lines
+              </label>
+              <p className="text-xs text-gray-600 font-medium">
+                Use {'{name}'} for the family name and {'{year}'} for the year. Long lines shrink to fit the ribbon.
+              </p>
+              {isTextTruncated && (
+                <div className="p-3 bg-yellow-100 border-2 border-yellow-400 rounded-lg" role="alert">
+                  <p className="text-sm text-yellow-900 font-semibold">
+                    <strong>Text too long:</strong> the greeting will be cut off with "…" on the card. Shorten it
+                    {greeting.wrapLongLines ? '' : ', turn on wrapping'} or pick a smaller font size.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </fieldset>
+
+        <div className="space-y-2">
+          <label htmlFor="output-preset" className="block text-sm font-semibold text-red-700">
+            Card Size
+          </label>
+          <select
+            id="output-preset"
+            value={presetId}
+            onChange={(e) => setPresetId(e.target.value)}
+            className="w-full px-4 py-2 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+          >
+            {OUTPUT_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name} ({preset.width}x{preset.height}) - {preset.description}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <span id="theme-label" className="block text-sm font-semibold text-red-700">
+            Theme
+          </span>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-labelledby="theme-label">
+            {COLLAGE_THEMES.map((theme) => (
+              <button
+                key={theme.id}
+                type="button"
+                role="radio"
+                aria-checked={theme.id === themeId}
+                onClick={() => setThemeId(theme.id)}
+                className={`
+                  flex items-center gap-2 px-3 py-1.5 rounded-lg border-2 text-sm font-semibold transition-colors duration-200
+                  ${theme.id === themeId
+                    ? 'border-red-500 bg-red-50 text-red-700 shadow-md'
+                    : 'border-green-300 bg-white text-gray-700 hover:border-green-400 hover:bg-green-50'
+                  }
+                `}
+              >
+                {/* Swatch: border color around the ribbon color */}
+                <span
+                  className="inline-block w-5 h-5 rounded-full border-4"
+                  style={{ borderColor: `#${theme.borderColor}`, backgroundColor: `#${theme.ribbon.color}` }}
+                  aria-hidden="true"
+                />
+                {theme.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Drag and Drop Zone */}
         <div
           onDragEnter={handleDragEnter}
@@ -428,7 +1415,7 @@ export default function FamilyCollageApp() {
               ? 'border-red-500 bg-red-50 shadow-lg' 
               : 'border-green-300 bg-green-50 hover:border-green-400 hover:bg-green-100'
             }
-            ${isUploading ? 'pointer-events-none opacity-60' : 'cursor-pointer'}
+            ${isPreparing ? 'pointer-events-none opacity-60' : 'cursor-pointer'}
           `}
           onClick={() => fileInputRef.current?.click()}
         >
@@ -436,7 +1423,7 @@ export default function FamilyCollageApp() {
             ref={fileInputRef}
             type="file"
             multiple
-            accept="image/*"
+            accept="image/*,.heic,.heif"
             onChange={handleFileInput}
             className="hidden"
           />
@@ -456,8 +1443,8 @@ export default function FamilyCollageApp() {
               />
             </svg>
             <div className="text-sm text-gray-700">
-              {isUploading ? (
-                <span className="font-semibold text-green-600">Uploading photos...</span>
+              {isPreparing ? (
+                <span className="font-semibold text-green-600">Preparing photos...</span>
               ) : isDragging ? (
                 <span className="font-semibold text-red-600">Drop photos here</span>
               ) : (
@@ -467,239 +1454,269 @@ export default function FamilyCollageApp() {
                 </>
               )}
             </div>
-            <p className="text-xs text-gray-600 font-medium">PNG, JPG, GIF up to 10MB each • Upload exactly 5 photos</p>
+            <p className="text-xs text-gray-600 font-medium">
+              JPG, PNG, HEIC and more, resized to {preprocessOptions.maxLongEdge}px and at most {MAX_UPLOAD_BYTES / 1024 / 1024}MB
+              each • As many photos as you like
+            </p>
           </div>
         </div>
 
-        <div className="flex items-center gap-4">
-          <div className="flex-1 border-t-2 border-green-300"></div>
-          <span className="text-sm font-semibold text-red-600">or</span>
-          <div className="flex-1 border-t-2 border-red-300"></div>
-        </div>
+        {uploadRejections.length > 0 && (
+          <div className="p-3 bg-red-50 border-2 border-red-300 rounded-lg text-sm text-red-800" role="alert">
+            <div className="flex justify-between gap-2">
+              <strong>
+                {uploadRejections.length} photo{uploadRejections.length !== 1 ? 's were' : ' was'} not uploaded:
+              </strong>
+              <button onClick={() => setUploadRejections([])} className="font-bold" aria-label="Dismiss">
+                ×
+              </button>
+            </div>
+            <ul className="mt-1 list-disc list-inside text-xs">
+              {uploadRejections.map((rejection, index) => (
+                <li key={index}>
+                  <span className="font-mono">{rejection.fileName}</span>: {rejection.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
-        <div className="flex justify-center">
-          <UploadWidget onUpload={handleUpload} />
-        </div>
-      </section>
+        {uploadQueue.items.length > 0 && (
+          <UploadQueueList
+            items={uploadQueue.items}
+            onCancel={(id) => uploadQueue.getQueue().cancel(id)}
+            onRetry={(id) => uploadQueue.getQueue().retry(id)}
+            onClearFinished={() => uploadQueue.getQueue().clearFinished()}
+          />
+        )}
 
-        {/* Uploads Gallery */}
-        {photos.length > 0 && (
-        <section className="bg-gradient-to-br from-green-50 to-red-50 rounded-xl shadow-lg border-2 border-green-300 p-6">
-          <h2 className="text-2xl font-bold text-green-700 mb-4">
-            Your Photos ({photos.length} / 5)
-          </h2>
-          <p className="text-sm text-gray-700 mb-4 font-medium">
-            Drag photos from here into the collage positions above
-          </p>
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
-            {photos.map((photo, index) => {
-              const isInLayout = 
-                collageLayout.position1?.publicId === photo.publicId ||
-                collageLayout.position2?.publicId === photo.publicId ||
-                collageLayout.position3?.publicId === photo.publicId ||
-                collageLayout.position4?.publicId === photo.publicId ||
-                collageLayout.position5?.publicId === photo.publicId;
-              
-              return (
-                <div
-                  key={index}
-                  draggable
-                  onDragStart={() => handlePhotoDragStart(photo)}
-                  onDragEnd={handlePhotoDragEnd}
-                  className={`
-                    relative aspect-square rounded-lg overflow-hidden bg-gray-100 cursor-move group
-                    transition-opacity duration-200
-                    ${isInLayout ? 'ring-2 ring-yellow-500 ring-offset-2' : 'hover:ring-2 hover:ring-red-300'}
-                  `}
-                >
-                  <img
-                    src={photo.url}
-                    alt={`Family photo ${index + 1}`}
-                    className="w-full h-full object-cover"
-                  />
-                  {isInLayout && (
-                    <div className="absolute top-1 left-1 bg-gradient-to-r from-red-500 to-green-500 text-white text-xs font-bold px-2 py-1 rounded shadow-lg">
-                      In collage
-                    </div>
-                  )}
-                  {/* Remove button */}
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      removePhoto(photo);
-                    }}
-                    className="absolute top-1 right-1 w-7 h-7 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center text-sm font-bold transition-all duration-200 opacity-0 group-hover:opacity-100 shadow-lg z-10"
-                    title="Remove photo"
-                    aria-label="Remove photo"
-                  >
-                    ×
-                  </button>
-                </div>
-              );
-            })}
-            {/* Show empty slots if less than 5 */}
-            {Array.from({ length: Math.max(0, 5 - photos.length) }).map((_, index) => (
-              <div
-                key={`empty-${index}`}
-                className="aspect-square rounded-lg border-2 border-dashed border-yellow-300 bg-yellow-50 flex items-center justify-center"
+        {/* Preprocessing settings, applied in the browser before each upload */}
+        <details className="text-sm text-gray-700">
+          <summary className="cursor-pointer font-semibold text-green-700">Upload settings</summary>
+          <div className="mt-2 flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              Max size
+              <select
+                value={preprocessOptions.maxLongEdge}
+                onChange={(e) => setPreprocessOptions((prev) => ({ ...prev, maxLongEdge: Number(e.target.value) }))}
+                className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
               >
-                <span className="text-yellow-600 text-xs font-medium">Empty</span>
-              </div>
-            ))}
+                {MAX_LONG_EDGE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>
+                    {size}px
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Format
+              <select
+                value={preprocessOptions.format}
+                onChange={(e) => setPreprocessOptions((prev) => ({ ...prev, format: e.target.value as OutputFormat }))}
+                className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
+              >
+                {OUTPUT_FORMATS.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Quality
+              <input
+                type="range"
+                min={50}
+                max={100}
+                step={5}
+                value={Math.round(preprocessOptions.quality * 100)}
+                onChange={(e) => setPreprocessOptions((prev) => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                className="accent-green-600"
+              />
+              <span className="w-10 text-right font-mono text-xs">{Math.round(preprocessOptions.quality * 100)}%</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={preprocessOptions.stripGps}
+                onChange={(e) => setPreprocessOptions((prev) => ({ ...prev, stripGps: e.target.checked }))}
+                className="w-4 h-4 accent-green-600"
+              />
+              Remove location (GPS) data
+            </label>
+            <label className="flex items-center gap-2">
+              Parallel uploads
+              <select
+                value={uploadQueue.concurrency}
+                onChange={(e) => uploadQueue.setConcurrency(Number(e.target.value))}
+                className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
+              >
+                {UPLOAD_CONCURRENCY_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
-        </section>
-      )}
+        </details>
+
+        {/* The upload widget and reopening shared URLs need Cloudinary */}
+        {isCloudinary && (
+          <>
+            <div className="flex items-center gap-4">
+              <div className="flex-1 border-t-2 border-green-300"></div>
+              <span className="text-sm font-semibold text-red-600">or</span>
+              <div className="flex-1 border-t-2 border-red-300"></div>
+            </div>
+
+            <div className="flex justify-center">
+              <UploadWidget onUpload={handleUpload} projectId={projectId} unsignedUploads={unsignedUploads} />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="open-url" className="block text-sm font-semibold text-red-700">
+                Open a previous card
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="open-url"
+                  type="text"
+                  value={openUrl}
+                  onChange={(e) => setOpenUrl(e.target.value)}
+                  className="flex-1 px-4 py-2 border-2 border-green-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                  placeholder="Paste a collage URL"
+                />
+                <button
+                  onClick={() => handleOpenFromUrl(openUrl)}
+                  disabled={!openUrl.trim() || isOpening}
+                  className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors whitespace-nowrap"
+                >
+                  {isOpening ? 'Opening...' : 'Open from URL'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </section>
 
-      {/* Collage Layout Arrangement - Masonry Grid */}
+        {/* Photo library */}
+        {photos.length > 0 && (
+          <PhotoLibrary
+            photos={photos}
+            placedIds={new Set(photosForCollage.map((photo) => photo.publicId))}
+            emptySlotCount={emptySlotCount}
+            onPhotoDragStart={(photo) => handlePhotoDragStart(photo)}
+            onPhotoDragEnd={handlePhotoDragEnd}
+            getThumbnailUrl={mediaBackend.getThumbnailUrl}
+            onAddToCollage={handleAddToCollage}
+            onRemove={(photosToRemove) => photosToRemove.forEach(removePhoto)}
+          />
+        )}
+
+      {/* Collage Layout Arrangement - rendered from the layout template */}
       <section className="bg-gradient-to-br from-red-50 to-green-50 rounded-xl shadow-lg border-2 border-yellow-300 p-6">
         <h2 className="text-2xl font-bold text-red-700 mb-2">
-          Arrange Your Collage (5 Photos Required)
+          Arrange Your Collage ({slotCount} Photo{slotCount !== 1 ? 's' : ''})
         </h2>
-        <p className="text-sm text-gray-700 mb-6 font-medium">
-          Drag photos between positions to reorder them. Drag from gallery below to add photos.
+        <p className="text-sm text-gray-700 mb-4 font-medium">
+          Pick a layout, then drag photos between positions to reorder them. Drag from gallery below to add photos.
         </p>
-        
-        {/* 3-Column Masonry Grid Layout */}
-        {/* Column 1: spans 2 rows | Column 2: top 2/3, bottom 1/3 | Column 3: top 1/3, bottom 2/3 */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {/* Column 1: Spans 2 rows */}
-          <div className="row-span-2">
-            <div
-              onDragOver={(e) => handlePositionDragOver(e, 'position1')}
-              onDragLeave={handlePositionDragLeave}
-              onDrop={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                handlePositionDrop('position1');
-              }}
-              className={`
-                relative rounded-xl border-2 transition-all duration-200 overflow-hidden
-                shadow-md hover:shadow-lg h-full min-h-[600px]
-                ${collageLayout.position1 
-                  ? 'border-yellow-400 bg-white' 
-                  : hoveredPosition === 'position1'
-                    ? 'border-red-500 bg-red-50 shadow-xl scale-105' 
-                    : 'border-green-200 bg-green-50'
-                }
-                ${draggedFromPosition === 'position1' ? 'opacity-50 border-yellow-300' : ''}
-                ${draggedPhoto && !collageLayout.position1 ? 'cursor-pointer' : ''}
-              `}
-            >
-              {renderPositionSlot('position1', 0)}
-            </div>
-          </div>
 
-          {/* Column 2: Top 2/3, Bottom 1/3 */}
-          <div className="flex flex-col gap-6">
-            {/* Position 2 - Top, spans 2/3 */}
-            <div
-              onDragOver={(e) => handlePositionDragOver(e, 'position2')}
-              onDragLeave={handlePositionDragLeave}
-              onDrop={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                handlePositionDrop('position2');
-              }}
+        {/* Layout template picker */}
+        <div className="flex flex-wrap gap-2 mb-6" role="radiogroup" aria-label="Collage layout">
+          {LAYOUT_TEMPLATES.map((layoutTemplate) => (
+            <button
+              key={layoutTemplate.id}
+              type="button"
+              role="radio"
+              aria-checked={layoutTemplate.id === layoutId}
+              onClick={() => handleLayoutChange(layoutTemplate.id)}
+              title={layoutTemplate.description}
               className={`
-                relative rounded-xl border-2 transition-all duration-200 overflow-hidden
-                shadow-md hover:shadow-lg h-[400px]
-                ${collageLayout.position2 
-                  ? 'border-yellow-400 bg-white' 
-                  : hoveredPosition === 'position2'
-                    ? 'border-red-500 bg-red-50 shadow-xl scale-105' 
-                    : 'border-green-200 bg-green-50'
+                px-3 py-1.5 rounded-lg border-2 text-sm font-semibold transition-colors duration-200
+                ${layoutTemplate.id === layoutId
+                  ? 'border-red-500 bg-red-600 text-white shadow-md'
+                  : 'border-green-300 bg-white text-green-700 hover:border-green-400 hover:bg-green-50'
                 }
-                ${draggedFromPosition === 'position2' ? 'opacity-50 border-yellow-300' : ''}
-                ${draggedPhoto && !collageLayout.position2 ? 'cursor-pointer' : ''}
               `}
             >
-              {renderPositionSlot('position2', 1)}
-            </div>
-            
-            {/* Position 3 - Bottom, spans 1/3 */}
-            <div
-              onDragOver={(e) => handlePositionDragOver(e, 'position3')}
-              onDragLeave={handlePositionDragLeave}
-              onDrop={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                handlePositionDrop('position3');
-              }}
-              className={`
-                relative rounded-xl border-2 transition-all duration-200 overflow-hidden
-                shadow-md hover:shadow-lg h-[200px]
-                ${collageLayout.position3 
-                  ? 'border-yellow-400 bg-white' 
-                  : hoveredPosition === 'position3'
-                    ? 'border-red-500 bg-red-50 shadow-xl scale-105' 
-                    : 'border-green-200 bg-green-50'
-                }
-                ${draggedFromPosition === 'position3' ? 'opacity-50 border-yellow-300' : ''}
-                ${draggedPhoto && !collageLayout.position3 ? 'cursor-pointer' : ''}
-              `}
-            >
-              {renderPositionSlot('position3', 2)}
-            </div>
-          </div>
+              {layoutTemplate.name}
+            </button>
+          ))}
+        </div>
+
+        {/* Auto-arrange: match photo shapes (and faces) to slot shapes */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <button
+            type="button"
+            onClick={handleAutoArrange}
+            disabled={photos.length === 0}
+            title="Put each photo in the slot that best fits its shape, keeping faces in frame"
+            className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-green-600 hover:bg-green-700 text-white shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Auto-arrange
+          </button>
+          <button
+            type="button"
+            onClick={handleShuffle}
+            disabled={photos.length === 0}
+            title="Try the next-best arrangement"
+            className="px-3 py-1.5 rounded-lg text-sm font-semibold border-2 border-green-300 bg-white text-green-700 hover:border-green-400 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Shuffle
+          </button>
+        </div>
 
-          {/* Column 3: Top 1/3, Bottom 2/3 */}
-          <div className="flex flex-col gap-6">
-            {/* Position 4 - Top, spans 1/3 */}
+        {/* Template grid: each slot spans the same cells it covers on the card */}
+        <div
+          className="grid gap-4 mx-auto"
+          style={{
+            gridTemplateColumns: `repeat(${template.columns}, minmax(0, 1fr))`,
+            gridTemplateRows: `repeat(${template.rows}, minmax(0, 1fr))`,
+            aspectRatio: `${photoArea.width} / ${photoArea.height}`,
+            // Keep tall presets (e.g. portrait story) within the viewport
+            width: `min(100%, calc(70vh * ${photoAreaRatio}))`,
+          }}
+        >
+          {template.slots.map((slot, position) => (
             <div
-              onDragOver={(e) => handlePositionDragOver(e, 'position4')}
+              key={`${template.id}-${position}`}
+              onDragOver={(e) => handlePositionDragOver(e, position)}
               onDragLeave={handlePositionDragLeave}
               onDrop={(e) => {
                 e.preventDefault();
                 e.stopPropagation();
-                handlePositionDrop('position4');
+                handlePositionDrop(position);
               }}
-              className={`
-                relative rounded-xl border-2 transition-all duration-200 overflow-hidden
-                shadow-md hover:shadow-lg h-[200px]
-                ${collageLayout.position4 
-                  ? 'border-yellow-400 bg-white' 
-                  : hoveredPosition === 'position4'
-                    ? 'border-red-500 bg-red-50 shadow-xl scale-105' 
-                    : 'border-green-200 bg-green-50'
-                }
-                ${draggedFromPosition === 'position4' ? 'opacity-50 border-yellow-300' : ''}
-                ${draggedPhoto && !collageLayout.position4 ? 'cursor-pointer' : ''}
-              `}
-            >
-              {renderPositionSlot('position4', 3)}
-            </div>
-            
-            {/* Position 5 - Bottom, spans 2/3 */}
-            <div
-              onDragOver={(e) => handlePositionDragOver(e, 'position5')}
-              onDragLeave={handlePositionDragLeave}
-              onDrop={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                handlePositionDrop('position5');
+              style={{
+                gridColumn: `${slot.column + 1} / span ${slot.columnSpan || 1}`,
+                gridRow: `${slot.row + 1} / span ${slot.rowSpan || 1}`,
               }}
               className={`
                 relative rounded-xl border-2 transition-all duration-200 overflow-hidden
-                shadow-md hover:shadow-lg h-[400px]
-                ${collageLayout.position5 
+                shadow-md hover:shadow-lg min-h-0
+                ${collageLayout[position]
                   ? 'border-yellow-400 bg-white' 
-                  : hoveredPosition === 'position5'
+                  : hoveredPosition === position
                     ? 'border-red-500 bg-red-50 shadow-xl scale-105' 
                     : 'border-green-200 bg-green-50'
                 }
-                ${draggedFromPosition === 'position5' ? 'opacity-50 border-yellow-300' : ''}
-                ${draggedPhoto && !collageLayout.position5 ? 'cursor-pointer' : ''}
+                ${draggedFromPosition === position ? 'opacity-50 border-yellow-300' : ''}
+                ${draggedPhoto && !collageLayout[position] ? 'cursor-pointer' : ''}
               `}
             >
-              {renderPositionSlot('position5', 4)}
+              {renderPositionSlot(position)}
             </div>
-          </div>
+          ))}
         </div>
 
-        {photosForCollage.length < 5 && (
+        {adjustingPosition !== null && renderAdjustmentsPanel(adjustingPosition)}
+
+        {emptySlotCount > 0 && (
           <div className="mt-6 p-4 bg-yellow-100 border-2 border-yellow-400 rounded-lg shadow-md">
             <p className="text-sm text-yellow-900 font-semibold">
-              <strong>Incomplete collage:</strong> You need {5 - photosForCollage.length} more photo{5 - photosForCollage.length !== 1 ? 's' : ''} to complete your collage.
+              <strong>Incomplete collage:</strong> {emptySlotCount} empty slot{emptySlotCount !== 1 ? 's' : ''} will show the background. Add more photos or pick a smaller layout.
             </p>
           </div>
         )}
@@ -713,77 +1730,242 @@ export default function FamilyCollageApp() {
           Your Holiday Card
         </h2>
 
-        {photosForCollage.length < 5 ? (
+        {photosForCollage.length === 0 ? (
           <p className="text-gray-700 italic font-medium">
             {photos.length === 0 
-              ? 'Upload 5 photos to create your collage.' 
-              : `Add ${5 - photosForCollage.length} more photo${5 - photosForCollage.length !== 1 ? 's' : ''} to the position slots above to see your collage.`}
+              ? 'Upload photos to create your collage.' 
+              : 'Add photos to the position slots above to see your collage.'}
           </p>
         ) : (
           <>
+            {/* The local backend's render is the same drawing as the preview, so there is nothing to switch to */}
+            {isCloudinary && (
+              <div className="flex gap-2">
+                {([['preview', 'Live preview'], ['rendered', 'Cloudinary render']] as const).map(([view, label]) => (
+                  <button
+                    key={view}
+                    onClick={() => setCardView(view)}
+                    className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+                      cardView === view ? 'bg-red-600 text-white' : 'bg-white text-red-700 border-2 border-red-200 hover:border-red-400'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="relative w-full bg-gray-100 rounded-lg overflow-hidden min-h-[200px] flex items-center justify-center">
-              {isRegenerating ? (
-                <div className="py-12 flex flex-col items-center justify-center">
-                  <div className="relative">
-                    {/* Christmas Tree */}
-                    <div className="text-6xl mb-4 animate-bounce" style={{ animationDuration: '1s' }}>
-                      🎄
-                    </div>
-                    {/* Snowflakes */}
-                    <div className="absolute -top-4 -left-4 text-2xl animate-spin" style={{ animationDuration: '3s' }}>
-                      ❄️
-                    </div>
-                    <div className="absolute -top-4 -right-4 text-2xl animate-spin" style={{ animationDuration: '2s', animationDirection: 'reverse' }}>
-                      ❄️
-                    </div>
-                    <div className="absolute -bottom-2 left-0 text-xl animate-pulse">
-                      ⭐
-                    </div>
-                    <div className="absolute -bottom-2 right-0 text-xl animate-pulse" style={{ animationDelay: '0.3s' }}>
-                      ⭐
+              {isCloudinary && cardView === 'preview' ? (
+                <CollagePreview
+                  photos={collageLayout}
+                  familyName={familyName}
+                  options={collageOptions}
+                  backgroundUrl={mediaBackend.getBackgroundUrl(getCollageTheme(themeId).backgroundId)}
+                  webFonts={mediaBackend.webFonts}
+                />
+              ) : !shownCollageUrl ? (
+                renderStatus.state === 'error' ? (
+                  <p className="py-12 text-lg font-bold text-red-600">The card could not be rendered.</p>
+                ) : (
+                  <div className="py-12 flex flex-col items-center justify-center">
+                    <div className="relative">
+                      {/* Christmas Tree */}
+                      <div className="text-6xl mb-4 animate-bounce" style={{ animationDuration: '1s' }}>
+                        🎄
+                      </div>
+                      {/* Snowflakes */}
+                      <div className="absolute -top-4 -left-4 text-2xl animate-spin" style={{ animationDuration: '3s' }}>
+                        ❄️
+                      </div>
+                      <div className="absolute -top-4 -right-4 text-2xl animate-spin" style={{ animationDuration: '2s', animationDirection: 'reverse' }}>
+                        ❄️
+                      </div>
+                      <div className="absolute -bottom-2 left-0 text-xl animate-pulse">
+                        ⭐
+                      </div>
+                      <div className="absolute -bottom-2 right-0 text-xl animate-pulse" style={{ animationDelay: '0.3s' }}>
+                        ⭐
+                      </div>
                     </div>
+                    <p className="text-lg font-bold text-red-600 mt-4 animate-pulse">
+                      Creating your holiday card collage...
+                    </p>
                   </div>
-                  <p className="text-lg font-bold text-red-600 mt-4 animate-pulse">
-                    Creating your holiday card collage...
-                  </p>
-                </div>
+                )
               ) : (
-                <img
-                  src={displayUrl}
-                  alt="Family holiday collage"
-                  className="w-full h-auto"
-                />
+                <>
+                  {/* The last good render stays up, dimmed, while the next one loads */}
+                  <img
+                    src={shownCollageUrl}
+                    alt="Family holiday collage"
+                    className={`w-full h-auto transition-opacity ${renderStatus.state === 'loading' ? 'opacity-60' : ''}`}
+                  />
+                  {renderStatus.state === 'loading' && (
+                    <span className="absolute top-3 right-3 px-3 py-1 bg-white/90 rounded-full text-sm font-semibold text-red-600 shadow animate-pulse">
+                      Updating card...
+                    </span>
+                  )}
+                </>
               )}
             </div>
 
-            <div className="space-y-2">
-              <label htmlFor="collage-url" className="block text-sm font-semibold text-red-700">
-                Collage URL
-              </label>
-              <div className="flex gap-2 justify-center items-center">
-                <input
-                  id="collage-url"
-                  type="text"
-                  value={displayUrl}
-                  onChange={(e) => setEditedCollageUrl(e.target.value)}
-                  className="flex-1 max-w-2xl px-4 py-2 border-2 border-green-300 rounded-lg bg-white text-sm font-mono focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
-                  placeholder="Edit the collage URL here"
-                />
+            {renderStatus.state === 'error' && (
+              <div className="p-3 bg-red-50 border-2 border-red-300 rounded-lg text-sm text-red-800" role="alert">
+                <strong>{isCloudinary ? 'Cloudinary could not render the card:' : 'The card could not be rendered:'}</strong>{' '}
+                <span className="font-mono text-xs">{renderStatus.reason}</span>
+                {shownCollageUrl && !(isCloudinary && cardView === 'preview') && (
+                  <p className="mt-1">The last card that rendered is shown instead.</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-center">
+              {([['image/png', 'Download PNG'], ['image/jpeg', 'Download JPEG']] as const).map(([format, label]) => (
                 <button
-                  onClick={() => {
-                    navigator.clipboard.writeText(displayUrl);
-                    setCopied(true);
-                    setTimeout(() => setCopied(false), 2000);
-                  }}
-                  className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+                  key={format}
+                  onClick={() => handleDownloadImage(format)}
+                  disabled={downloadingFormat !== null}
+                  className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors whitespace-nowrap"
                 >
-                  {copied ? '✓ Copied!' : 'Copy URL'}
+                  {downloadingFormat === format ? 'Preparing...' : label}
                 </button>
-              </div>
+              ))}
             </div>
+
+            {/* Print export: the card laid out again at a card size at 300 DPI, drawn in the browser */}
+            <details className="text-sm text-gray-700">
+              <summary className="cursor-pointer font-semibold text-green-700">Print-ready PDF</summary>
+              <div className="mt-2 space-y-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="flex items-center gap-2">
+                    Card size
+                    <select
+                      value={printOptions.sizeId}
+                      onChange={(e) => setPrintOptions((prev) => ({ ...prev, sizeId: e.target.value }))}
+                      className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
+                    >
+                      {PRINT_SIZES.map((size) => (
+                        <option key={size.id} value={size.id} title={size.description}>
+                          {size.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Bleed
+                    <select
+                      value={printOptions.bleed}
+                      onChange={(e) => setPrintOptions((prev) => ({ ...prev, bleed: Number(e.target.value) }))}
+                      className="px-2 py-1 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
+                    >
+                      {BLEED_OPTIONS.map((bleed) => (
+                        <option key={bleed} value={bleed}>
+                          {bleed === 0 ? 'None' : `${bleed} mm`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={printOptions.cropMarks}
+                      onChange={(e) => setPrintOptions((prev) => ({ ...prev, cropMarks: e.target.checked }))}
+                      className="w-4 h-4 accent-green-600"
+                    />
+                    Crop marks
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="font-semibold">
+                    {getPrintSize(printOptions.sizeId).folded ? 'Message inside' : 'Message on the back'}
+                  </span>{' '}
+                  (optional, adds a second page)
+                  <textarea
+                    value={printOptions.backMessage}
+                    onChange={(e) => setPrintOptions((prev) => ({ ...prev, backMessage: e.target.value }))}
+                    rows={3}
+                    className="mt-1 w-full px-3 py-2 border-2 border-green-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500"
+                    placeholder="Wishing you a wonderful holiday season..."
+                  />
+                </label>
+                {getPrintSize(printOptions.sizeId).folded && printOptions.backMessage.trim() && (
+                  <p className="text-xs text-gray-600">Print double-sided, flipping on the short edge.</p>
+                )}
+                <button
+                  onClick={handleDownloadPrintPdf}
+                  disabled={isCreatingPdf || photosForCollage.length === 0}
+                  className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors whitespace-nowrap"
+                >
+                  {isCreatingPdf ? 'Creating PDF...' : 'Download PDF'}
+                </button>
+              </div>
+            </details>
+
+            {/* Locally rendered cards only exist in this browser, so there is no URL to share */}
+            {isCloudinary ? (
+              <div className="space-y-2">
+                {/* Remounted for every new render, which clears the link */}
+                <ShareLink key={collageUrl} name={displayName} state={editorState} />
+                <label htmlFor="collage-url" className="block text-sm font-semibold text-red-700">
+                  Collage URL
+                </label>
+                <div className="flex gap-2 justify-center items-center">
+                  <input
+                    id="collage-url"
+                    type="text"
+                    value={displayUrl}
+                    onChange={(e) => setEditedCollageUrl(e.target.value)}
+                    readOnly={signedUrls}
+                    className="flex-1 max-w-2xl px-4 py-2 border-2 border-green-300 rounded-lg bg-white text-sm font-mono focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
+                    placeholder={signedUrls ? undefined : 'Edit the collage URL here'}
+                  />
+                  <button
+                    onClick={() => {
+                      navigator.clipboard.writeText(displayUrl);
+                      setCopied(true);
+                      setTimeout(() => setCopied(false), 2000);
+                    }}
+                    className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+                  >
+                    {copied ? '✓ Copied!' : 'Copy URL'}
+                  </button>
+                  {/* Edits to the URL only change the preview until they are opened into the editor */}
+                  {editedCollageUrl && editedCollageUrl !== collageUrl && (
+                    <button
+                      onClick={() => handleOpenFromUrl(editedCollageUrl)}
+                      disabled={isOpening}
+                      className="px-6 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors whitespace-nowrap"
+                    >
+                      {isOpening ? 'Opening...' : 'Open from URL'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 text-center">
+                Rendered in this browser (offline mode). Configure Cloudinary to get a shareable URL.
+              </p>
+            )}
           </>
         )}
       </section>
+
+      {/* Batch mode: this card's layout, theme and photos for every family on a list */}
+      <section className="bg-white rounded-xl shadow-lg border-2 border-green-200 p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-green-700">Cards for Many Families</h2>
+        {photosForCollage.length === 0 ? (
+          <p className="text-gray-700 italic font-medium">Add photos to the card above to make cards for a list of families.</p>
+        ) : (
+          <BatchGenerator
+            mediaBackend={mediaBackend}
+            library={photos}
+            layout={collageLayout}
+            options={collageOptions}
+            name={displayName}
+          />
+        )}
+      </section>
     </div>
   );
 }
@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_LIBRARY_SORT,
+  LIBRARY_SORTS,
+  filterAndSortLibrary,
+  getPhotoDisplayName,
+  type LibraryPhoto,
+  type LibrarySort,
+} from '../lib/library';
+
+type LibraryItem = LibraryPhoto & {
+  url: string;
+};
+
+type PhotoLibraryProps<T extends LibraryItem> = {
+  photos: T[];
+  /** Public IDs of the photos placed in the collage */
+  placedIds: Set<string>;
+  emptySlotCount: number;
+  /** URL of a square thumbnail, from the media backend */
+  getThumbnailUrl: (photo: T, size: number) => string;
+  onPhotoDragStart: (photo: T) => void;
+  onPhotoDragEnd: () => void;
+  /** Fill empty collage slots with these photos, in order */
+  onAddToCollage: (photos: T[]) => void;
+  onRemove: (photos: T[]) => void;
+};
+
+// Grid geometry: tiles are square, at least TILE_MIN_WIDTH wide, and only rows near the viewport are rendered
+const TILE_MIN_WIDTH = 140;
+const GAP = 16;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN_ROWS = 2;
+
+export default function PhotoLibrary<T extends LibraryItem>({
+  photos,
+  placedIds,
+  emptySlotCount,
+  getThumbnailUrl,
+  onPhotoDragStart,
+  onPhotoDragEnd,
+  onAddToCollage,
+  onRemove,
+}: PhotoLibraryProps<T>) {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<LibrarySort>(DEFAULT_LIBRARY_SORT);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastClickedIdRef = useRef<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setViewportWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const visiblePhotos = filterAndSortLibrary(photos, query, sort);
+  // Selection only counts photos that are still in the library
+  const selectedPhotos = visiblePhotos.filter((photo) => selectedIds.has(photo.publicId));
+
+  const columns = Math.max(2, Math.floor((viewportWidth + GAP) / (TILE_MIN_WIDTH + GAP)));
+  const tileSize = viewportWidth > 0 ? (viewportWidth - GAP * (columns - 1)) / columns : TILE_MIN_WIDTH;
+  const rowHeight = tileSize + GAP;
+  const rowCount = Math.ceil(visiblePhotos.length / columns);
+  const contentHeight = Math.max(0, rowCount * rowHeight - GAP);
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / rowHeight) + OVERSCAN_ROWS);
+  const renderedPhotos = visiblePhotos.slice(firstRow * columns, lastRow * columns);
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+  // Click toggles a photo; Shift+click selects everything between it and the last clicked photo
+  const handleTileClick = (e: React.MouseEvent, photo: T) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      const lastIndex = visiblePhotos.findIndex((p) => p.publicId === lastClickedIdRef.current);
+      if (e.shiftKey && lastIndex !== -1) {
+        const index = visiblePhotos.indexOf(photo);
+        const [from, to] = index < lastIndex ? [index, lastIndex] : [lastIndex, index];
+        visiblePhotos.slice(from, to + 1).forEach((p) => next.add(p.publicId));
+      } else if (next.has(photo.publicId)) {
+        next.delete(photo.publicId);
+      } else {
+        next.add(photo.publicId);
+      }
+      return next;
+    });
+    lastClickedIdRef.current = photo.publicId;
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    lastClickedIdRef.current = null;
+  };
+
+  const handleRemoveSelected = () => {
+    if (selectedPhotos.length > 1 && !confirm(`Remove ${selectedPhotos.length} photos from the library?`)) return;
+    onRemove(selectedPhotos);
+    clearSelection();
+  };
+
+  return (
+    <section className="bg-gradient-to-br from-green-50 to-red-50 rounded-xl shadow-lg border-2 border-green-300 p-6 space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-green-700">
+          Your Photos ({photos.length})
+        </h2>
+        <p className="text-sm text-gray-700 font-medium">
+          Drag photos into the collage positions above, or select several and add them to the empty slots
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by file name"
+          aria-label="Search photos by file name"
+          className="flex-1 min-w-[10rem] px-3 py-2 border-2 border-green-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LibrarySort)}
+          aria-label="Sort photos"
+          className="px-3 py-2 border-2 border-green-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-green-500"
+        >
+          {LIBRARY_SORTS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setSelectedIds(new Set(visiblePhotos.map((photo) => photo.publicId)))}
+          className="px-3 py-2 text-sm font-semibold rounded-lg border-2 border-green-300 text-green-700 hover:bg-green-100"
+        >
+          Select all
+        </button>
+      </div>
+
+      {selectedPhotos.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-yellow-100 border-2 border-yellow-300 rounded-lg text-sm">
+          <span className="font-semibold text-yellow-900">{selectedPhotos.length} selected</span>
+          <button
+            onClick={() => {
+              onAddToCollage(selectedPhotos);
+              clearSelection();
+            }}
+            disabled={emptySlotCount === 0}
+            title={emptySlotCount === 0 ? 'The collage has no empty slots' : undefined}
+            className="px-3 py-1 font-semibold rounded-lg bg-green-600 hover:bg-green-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add to collage
+          </button>
+          <button
+            onClick={handleRemoveSelected}
+            className="px-3 py-1 font-semibold rounded-lg bg-red-500 hover:bg-red-600 text-white"
+          >
+            Remove
+          </button>
+          <button onClick={clearSelection} className="px-3 py-1 font-semibold text-yellow-900 hover:underline">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {visiblePhotos.length === 0 && (
+        <p className="text-sm text-gray-600 italic">No photos match "{query}".</p>
+      )}
+
+      {/* Virtualized grid: the spacer keeps the full scroll height, only nearby rows are mounted */}
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, contentHeight) }}
+      >
+        <div className="relative" style={{ height: contentHeight }}>
+          {renderedPhotos.map((photo, offset) => {
+            const index = firstRow * columns + offset;
+            const isInLayout = placedIds.has(photo.publicId);
+            const isSelected = selectedIds.has(photo.publicId);
+            const name = getPhotoDisplayName(photo);
+
+            return (
+              <div
+                key={photo.publicId}
+                draggable
+                onDragStart={() => onPhotoDragStart(photo)}
+                onDragEnd={onPhotoDragEnd}
+                onClick={(e) => handleTileClick(e, photo)}
+                title={photo.takenAt ? `${name} • taken ${new Date(photo.takenAt).toLocaleDateString()}` : name}
+                style={{
+                  position: 'absolute',
+                  top: Math.floor(index / columns) * rowHeight,
+                  left: (index % columns) * (tileSize + GAP),
+                  width: tileSize,
+                  height: tileSize,
+                }}
+                className={`
+                  rounded-lg overflow-hidden bg-gray-100 cursor-move group
+                  transition-shadow duration-200
+                  ${isSelected
+                    ? 'ring-4 ring-green-500'
+                    : isInLayout
+                      ? 'ring-2 ring-yellow-500'
+                      : 'hover:ring-2 hover:ring-red-300'
+                  }
+                `}
+              >
+                <img
+                  src={getThumbnailUrl(photo, tileSize * pixelRatio)}
+                  alt={name}
+                  loading="lazy"
+                  draggable={false}
+                  className="w-full h-full object-cover"
+                />
+                {/* Selection checkbox */}
+                <div
+                  className={`
+                    absolute top-1 right-1 w-6 h-6 rounded-full border-2 flex items-center justify-center text-xs font-bold shadow
+                    ${isSelected ? 'bg-green-600 border-white text-white' : 'bg-white/80 border-gray-400 text-transparent opacity-0 group-hover:opacity-100'}
+                  `}
+                  aria-hidden="true"
+                >
+                  ✓
+                </div>
+                {isInLayout && (
+                  <div className="absolute top-1 left-1 bg-gradient-to-r from-red-500 to-green-500 text-white text-xs font-bold px-2 py-1 rounded shadow-lg">
+                    In collage
+                  </div>
+                )}
+                <div className="absolute bottom-0 inset-x-0 px-2 py-1 bg-black/50 text-white text-xs truncate opacity-0 group-hover:opacity-100 transition-opacity">
+                  {name}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+}
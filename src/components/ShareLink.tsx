@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { exportProjectFile } from '../lib/projectFile';
+import type { ProjectState } from '../lib/projects';
+
+type ShareLinkProps = {
+  /** Project name saved with the card */
+  name: string;
+  /** The card to share; only its placed photos are sent, not the rest of the library */
+  state: ProjectState;
+};
+
+/**
+ * Short link to the card's share page (/c/<id>), created on request
+ * Give it a key that changes with the card: a share link shows the card as it was when the link was made.
+ */
+export default function ShareLink({ name, state }: ShareLinkProps) {
+  const [shareLink, setShareLink] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Saves the card on the server
+  const handleCreate = async () => {
+    setIsSharing(true);
+    try {
+      const response = await fetch('/api/collages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: exportProjectFile(name, { ...state, photos: [] }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.url) {
+        throw new Error(data?.errors?.join('\n') || `The server responded with HTTP ${response.status}`);
+      }
+      setShareLink(data.url);
+    } catch (error) {
+      console.error('Failed to create a share link:', error);
+      alert(`Could not create a share link.\n${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+      alert('Failed to copy the link. Please copy it manually.');
+    }
+  };
+
+  return (
+    <div className="flex gap-2 justify-center items-center">
+      {shareLink ? (
+        <>
+          <input
+            type="text"
+            value={shareLink}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-label="Share link"
+            className="flex-1 max-w-md px-4 py-2 border-2 border-green-300 rounded-lg bg-white text-sm font-mono"
+          />
+          <button
+            onClick={handleCopy}
+            className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+          >
+            {copied ? '✓ Copied!' : 'Copy link'}
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={handleCreate}
+          disabled={isSharing}
+          className="px-6 py-2 bg-gradient-to-r from-red-600 to-green-600 hover:from-red-700 hover:to-green-700 disabled:opacity-50 text-white font-bold rounded-lg transition-all duration-200 whitespace-nowrap shadow-lg hover:shadow-xl"
+        >
+          {isSharing ? 'Creating link...' : 'Create share link'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { UploadItem } from '../lib/uploadQueue';
+
+type UploadQueueListProps = {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+};
+
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  retrying: 'Retrying soon',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Per-file upload progress, with cancel and retry
+ */
+export default function UploadQueueList({ items, onCancel, onRetry, onClearFinished }: UploadQueueListProps) {
+  const pendingCount = items.filter((item) => ['queued', 'uploading', 'retrying'].includes(item.status)).length;
+
+  return (
+    <div className="p-3 bg-white border-2 border-green-300 rounded-lg space-y-2 text-sm">
+      <div className="flex justify-between items-center gap-2">
+        <strong className="text-green-700">
+          {pendingCount > 0 ? `Uploading ${pendingCount} of ${items.length} photos` : 'Uploads finished'}
+        </strong>
+        <button
+          onClick={onClearFinished}
+          disabled={pendingCount === items.length}
+          className="text-xs font-semibold text-green-700 hover:underline disabled:opacity-50"
+        >
+          Clear finished
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 truncate font-mono text-xs" title={item.fileName}>
+              {item.fileName}
+            </span>
+            <div
+              className="w-24 h-2 rounded-full bg-gray-200 overflow-hidden"
+              role="progressbar"
+              aria-label={`${item.fileName} upload progress`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(item.progress * 100)}
+            >
+              <div
+                className={`h-full transition-all ${item.status === 'failed' ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${item.progress * 100}%` }}
+              />
+            </div>
+            <span
+              className={`w-28 text-xs ${item.status === 'failed' ? 'text-red-700 font-semibold' : 'text-gray-600'}`}
+              title={item.error}
+            >
+              {STATUS_LABELS[item.status]}
+            </span>
+            {['queued', 'uploading', 'retrying'].includes(item.status) && (
+              <button
+                onClick={() => onCancel(item.id)}
+                className="text-xs font-semibold text-red-600 hover:underline"
+                aria-label={`Cancel upload of ${item.fileName}`}
+              >
+                Cancel
+              </button>
+            )}
+            {['failed', 'cancelled'].includes(item.status) && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="text-xs font-semibold text-green-700 hover:underline"
+                aria-label={`Retry upload of ${item.fileName}`}
+              >
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {items.some((item) => item.status === 'failed') && (
+        <ul className="list-disc list-inside text-xs text-red-800">
+          {items
+            .filter((item) => item.status === 'failed')
+            .map((item) => (
+              <li key={item.id}>
+                <span className="font-mono">{item.fileName}</span>: {item.error}
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,35 @@
 import { useEffect, useRef, useState } from 'react';
+import type { FaceRegion } from '../lib/arrange';
+import { fetchUploadSignature, signUploadWidgetParams } from '../lib/upload';
+
+// Fields of Cloudinary's upload result that the app uses
+export type UploadWidgetResult = {
+  public_id: string;
+  secure_url: string;
+  width?: number;
+  height?: number;
+  original_filename?: string;
+  format?: string;
+  created_at?: string;
+  /** EXIF and other embedded metadata; only present if the upload preset enables it */
+  image_metadata?: Record<string, string>;
+  /** Detected faces; only present if the upload preset enables face detection */
+  faces?: FaceRegion[];
+};
 
 type UploadWidgetProps = {
-  onUpload: (info: { public_id: string; secure_url: string }) => void;
+  onUpload: (info: UploadWidgetResult) => void;
+  /** Project the photos are for; signed uploads go to its folder. Null until the project is first saved */
+  projectId: string | null;
+  /** Use the unsigned upload preset instead of signatures from the server */
+  unsignedUploads: boolean;
 };
 
 type CloudinaryWidget = {
   open: () => void;
+  close: (options?: { quiet?: boolean }) => void;
+  /** Removes the widget's iframe from the page; the widget can't be opened again */
+  destroy: () => void;
 };
 
 declare global {
@@ -14,10 +38,15 @@ declare global {
       createUploadWidget: (
         options: {
           cloudName: string;
-          uploadPreset: string;
+          uploadPreset?: string;
+          apiKey?: string;
+          folder?: string;
+          uploadSignature?: (callback: (signature: string) => void, paramsToSign: Record<string, unknown>) => void;
+          clientAllowedFormats?: string[];
+          maxFileSize?: number;
           sources: string[];
           multiple: boolean;
-          maxFiles: number;
+          maxFiles?: number;
         },
         callback: (error: any, result: any) => void
       ) => CloudinaryWidget;
@@ -43,8 +72,11 @@ function waitForCloudinary(maxAttempts = 50, interval = 100): Promise<void> {
   });
 }
 
-export default function UploadWidget({ onUpload }: UploadWidgetProps) {
+export default function UploadWidget({ onUpload, projectId, unsignedUploads }: UploadWidgetProps) {
   const widgetRef = useRef<CloudinaryWidget | null>(null);
+  // The widget is only rebuilt when where it uploads to changes, not for every new onUpload callback
+  const onUploadRef = useRef(onUpload);
+  onUploadRef.current = onUpload;
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -52,26 +84,60 @@ export default function UploadWidget({ onUpload }: UploadWidgetProps) {
     const cloudName = import.meta.env.PUBLIC_CLOUDINARY_CLOUD_NAME;
     const uploadPreset = import.meta.env.PUBLIC_CLOUDINARY_UPLOAD_PRESET;
 
-    if (!cloudName || !uploadPreset) {
-      setError('Cloudinary configuration missing. Please set PUBLIC_CLOUDINARY_CLOUD_NAME and PUBLIC_CLOUDINARY_UPLOAD_PRESET in your .env file.');
+    if (!cloudName || (unsignedUploads && !uploadPreset)) {
+      setError(
+        unsignedUploads
+          ? 'Cloudinary configuration missing. Please set PUBLIC_CLOUDINARY_CLOUD_NAME and PUBLIC_CLOUDINARY_UPLOAD_PRESET in your .env file.'
+          : 'Cloudinary configuration missing. Please set PUBLIC_CLOUDINARY_CLOUD_NAME in your .env file.'
+      );
       setIsLoading(false);
       return;
     }
 
+    // Widget built by this run of the effect, so a late signing failure closes this one and not its replacement
+    let widget: CloudinaryWidget | null = null;
+
+    // Signed mode: the server assigns the folder and allowed formats, then signs each upload the widget starts
+    const getAuthOptions = async () => {
+      if (unsignedUploads) {
+        return { uploadPreset };
+      }
+      const { apiKey, params, maxBytes } = await fetchUploadSignature(projectId);
+      return {
+        apiKey,
+        folder: params.folder,
+        clientAllowedFormats: params.allowed_formats.split(','),
+        maxFileSize: maxBytes,
+        uploadSignature: (callback: (signature: string) => void, paramsToSign: Record<string, unknown>) => {
+          signUploadWidgetParams(projectId, paramsToSign)
+            .then(callback)
+            .catch((err) => {
+              console.error('Failed to sign the upload:', err);
+              // The widget waits for the signature forever, so close it rather than leave the upload hanging
+              widget?.close({ quiet: true });
+              alert(`The upload could not be authorized.\n${err instanceof Error ? err.message : ''}`);
+            });
+        },
+      };
+    };
+
+    let isCurrent = true;
+    setIsLoading(true);
     // Wait for Cloudinary script to load
-    waitForCloudinary()
-      .then(() => {
+    Promise.all([getAuthOptions(), waitForCloudinary()])
+      .then(([authOptions]) => {
+        if (!isCurrent) return;
         if (!window.cloudinary?.createUploadWidget) {
           throw new Error('Cloudinary createUploadWidget not available');
         }
 
-        widgetRef.current = window.cloudinary.createUploadWidget(
+        widget = window.cloudinary.createUploadWidget(
           {
             cloudName,
-            uploadPreset,
+            ...authOptions,
             sources: ['local', 'camera', 'url'],
+            // No maxFiles: the library takes any number of photos
             multiple: true,
-            maxFiles: 5,
           },
           (error, result) => {
             if (error) {
@@ -80,21 +146,39 @@ export default function UploadWidget({ onUpload }: UploadWidgetProps) {
             }
 
             if (result && result.event === 'success') {
-              onUpload({
+              onUploadRef.current({
                 public_id: result.info.public_id,
                 secure_url: result.info.secure_url,
+                width: result.info.width,
+                height: result.info.height,
+                original_filename: result.info.original_filename,
+                format: result.info.format,
+                created_at: result.info.created_at,
+                image_metadata: result.info.image_metadata,
+                faces: result.info.faces,
               });
             }
           }
         );
+        widgetRef.current = widget;
         setIsLoading(false);
       })
       .catch((err) => {
         console.error('Failed to initialize Cloudinary widget:', err);
-        setError('Failed to load Cloudinary upload widget. Please refresh the page.');
+        if (!isCurrent) return;
+        // Upload authorization errors (they carry a status) explain themselves, e.g. signing not configured
+        setError(err?.status !== undefined ? err.message : 'Failed to load Cloudinary upload widget. Please refresh the page.');
         setIsLoading(false);
       });
-  }, [onUpload]);
+    return () => {
+      isCurrent = false;
+      // A widget for another project would keep uploading to that project's folder
+      widget?.destroy();
+      if (widgetRef.current === widget) {
+        widgetRef.current = null;
+      }
+    };
+  }, [projectId, unsignedUploads]);
 
   const handleClick = () => {
     if (widgetRef.current) {
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import type { MediaBackend } from '../lib/mediaBackend';
+import { exportProjectFile, getProjectFileName, parseProjectFile } from '../lib/projectFile';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  loadProjectStore,
+  saveProjectStore,
+  upsertProject,
+  type ProjectPhoto,
+  type ProjectState,
+  type ProjectStore,
+  type SavedProject,
+} from '../lib/projects';
+
+type SavedProjectsOptions = {
+  /** Everything the editor saves with a project */
+  editorState: ProjectState;
+  mediaBackend: MediaBackend;
+  /** Editor state for a fresh project */
+  createEmptyState: () => ProjectState;
+  /** Loads a project into the editor, replacing its undo history */
+  onOpen: (state: ProjectState) => void;
+};
+
+/**
+ * Saved projects in this browser: restores the last one on load, autosaves the editor,
+ * and opens, duplicates, deletes, exports and imports projects
+ * The store is loaded after mount (localStorage is not available while rendering on the server).
+ */
+export function useSavedProjects({ editorState, mediaBackend, createEmptyState, onOpen }: SavedProjectsOptions) {
+  const storeRef = useRef<ProjectStore | null>(null);
+  const [savedProjects, setSavedProjects] = useState<SavedProject[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const editorStateKey = JSON.stringify(editorState);
+  // Files and autosaves are named after the project, or the family and year for an unnamed one
+  const displayName =
+    projectName.trim() ||
+    `${editorState.familyName.trim() || 'Untitled'} ${editorState.greeting.year ?? new Date().getFullYear()}`;
+
+  const commitStore = (store: ProjectStore) => {
+    storeRef.current = store;
+    setSaveFailed(!saveProjectStore(store));
+    setSavedProjects(store.projects);
+  };
+
+  // Saved photo URLs may be stale: the local backend hands out new object URLs every session
+  const resolvePhotoUrls = async (state: ProjectState): Promise<ProjectState> => {
+    const resolve = async <T extends ProjectPhoto>(photo: T): Promise<T> => ({
+      ...photo,
+      url: await mediaBackend.resolvePhotoUrl(photo),
+    });
+    return {
+      ...state,
+      photos: await Promise.all(state.photos.map(resolve)),
+      layout: await Promise.all(state.layout.map((slot) => (slot ? resolve(slot) : null))),
+    };
+  };
+
+  const openProject = async (project: SavedProject) => {
+    const state = await resolvePhotoUrls(project.state);
+    onOpen(state);
+    setProjectId(project.id);
+    setProjectName(project.name);
+    commitStore({ ...storeRef.current!, currentProjectId: project.id });
+  };
+
+  const handleNewProject = () => {
+    onOpen(createEmptyState());
+    setProjectId(null);
+    setProjectName('');
+    commitStore({ ...storeRef.current!, currentProjectId: null });
+  };
+
+  const handleDuplicateProject = () => {
+    if (!projectId) return;
+    const result = duplicateProject(storeRef.current!, projectId);
+    if (!result) return;
+    commitStore(result.store);
+    openProject(result.project);
+  };
+
+  const handleDeleteProject = (project: SavedProject) => {
+    const photosLocation = mediaBackend.kind === 'cloudinary' ? 'your Cloudinary account' : 'this browser';
+    if (!confirm(`Delete "${project.name}"? The photos stay in ${photosLocation}.`)) return;
+    commitStore(deleteProject(storeRef.current!, project.id));
+    if (project.id === projectId) {
+      handleNewProject();
+    }
+  };
+
+  const handleExportProject = () => {
+    const blob = new Blob([exportProjectFile(displayName, editorState)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = getProjectFileName(displayName);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  // Imported projects are saved as a new project, so they never overwrite the one that is open
+  const handleImportProject = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseProjectFile(await file.text());
+    if (!result.ok) {
+      setImportErrors(result.errors);
+      return;
+    }
+    setImportErrors([]);
+    const project = createProject(result.name, result.state);
+    commitStore(upsertProject(storeRef.current!, project));
+    openProject(project);
+  };
+
+  // Restore the project that was open last
+  useEffect(() => {
+    const store = loadProjectStore();
+    storeRef.current = store;
+    setSavedProjects(store.projects);
+    const current = store.projects.find((project) => project.id === store.currentProjectId);
+    if (current) {
+      resolvePhotoUrls(current.state).then((state) => {
+        onOpen(state);
+        setProjectId(current.id);
+        setProjectName(current.name);
+      });
+    }
+  }, []);
+
+  // Autosave shortly after every change; an untouched new project is not saved until it has photos
+  useEffect(() => {
+    const store = storeRef.current;
+    if (!store || (!projectId && editorState.photos.length === 0)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      const existing = store.projects.find((project) => project.id === projectId);
+      const project = existing ? { ...existing, name: displayName, state: editorState } : createProject(displayName, editorState);
+      commitStore({ ...upsertProject(store, project), currentProjectId: project.id });
+      if (!existing) {
+        setProjectId(project.id);
+        setProjectName(displayName);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [editorStateKey, projectId, projectName]);
+
+  return {
+    savedProjects,
+    projectId,
+    projectName,
+    setProjectName,
+    displayName,
+    saveFailed,
+    importErrors,
+    dismissImportErrors: () => setImportErrors([]),
+    openProject,
+    handleNewProject,
+    handleDuplicateProject,
+    handleDeleteProject,
+    handleExportProject,
+    handleImportProject,
+  };
+}
@@ -0,0 +1,41 @@
+import { useRef, useState } from 'react';
+import { isTransientUploadError, type UploadResult } from '../lib/upload';
+import {
+  DEFAULT_UPLOAD_CONCURRENCY,
+  createUploadQueue,
+  type UploadItem,
+  type UploadQueue,
+  type UploadTask,
+} from '../lib/uploadQueue';
+
+/**
+ * The editor's upload queue: created on first use, its items mirrored into state for rendering
+ * @param upload - Uploads one file; the queue outlives renders, so each upload calls the latest one passed in
+ * @returns The items, the concurrency setting, and the queue itself
+ */
+export function useUploadQueue(upload: UploadTask<UploadResult>) {
+  const queueRef = useRef<UploadQueue<UploadResult> | null>(null);
+  const uploadRef = useRef(upload);
+  uploadRef.current = upload;
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [concurrency, setConcurrencyState] = useState(DEFAULT_UPLOAD_CONCURRENCY);
+
+  const getQueue = (): UploadQueue<UploadResult> => {
+    if (!queueRef.current) {
+      queueRef.current = createUploadQueue<UploadResult>({
+        upload: (file, options) => uploadRef.current(file, options),
+        concurrency,
+        isTransient: isTransientUploadError,
+        onChange: setItems,
+      });
+    }
+    return queueRef.current;
+  };
+
+  const setConcurrency = (next: number) => {
+    setConcurrencyState(next);
+    queueRef.current?.setConcurrency(next);
+  };
+
+  return { items, concurrency, setConcurrency, getQueue };
+}
@@ -0,0 +1,169 @@
+import type { Transformation } from './transformation';
+
+export type PhotoFilter = 'none' | 'grayscale' | 'sepia' | 'vintage';
+
+/**
+ * Color adjustments for a photo in the collage
+ * brightness, contrast and saturation range from -100 to 100, with 0 leaving the photo unchanged.
+ */
+export type PhotoAdjustments = {
+  filter: PhotoFilter;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  /** Cloudinary's automatic enhancement (e_improve) */
+  autoImprove: boolean;
+};
+
+export const DEFAULT_ADJUSTMENTS: PhotoAdjustments = {
+  filter: 'none',
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  autoImprove: false,
+};
+
+export const PHOTO_FILTERS: Array<{ value: PhotoFilter; label: string }> = [
+  { value: 'none', label: 'Original' },
+  { value: 'grayscale', label: 'B&W' },
+  { value: 'sepia', label: 'Sepia' },
+  { value: 'vintage', label: 'Vintage' },
+];
+
+// Vintage = partial sepia plus a darkened edge
+const VINTAGE_SEPIA = 50;
+const VINTAGE_VIGNETTE = 40;
+
+/**
+ * Builds the Cloudinary effect transformations for a photo overlay (one effect per component)
+ * @param adjustments - Photo adjustments (defaults to no changes)
+ * @param harmonize - "Match all photos": normalize color, brightness and contrast of every photo
+ *   first, so photos from different cameras and lighting look like one set
+ * @returns Transformation components, e.g. e_improve, e_grayscale, e_brightness:20
+ */
+export function buildAdjustmentTransformations(
+  adjustments: PhotoAdjustments = DEFAULT_ADJUSTMENTS,
+  harmonize = false
+): Transformation[] {
+  const effects: Array<NonNullable<Transformation['effect']>> = [];
+
+  if (harmonize) {
+    effects.push({ name: 'auto_color' }, { name: 'auto_brightness' }, { name: 'auto_contrast' });
+  }
+  if (adjustments.autoImprove) {
+    effects.push({ name: 'improve' });
+  }
+
+  switch (adjustments.filter) {
+    case 'grayscale':
+      effects.push({ name: 'grayscale' });
+      break;
+    case 'sepia':
+      effects.push({ name: 'sepia' });
+      break;
+    case 'vintage':
+      effects.push({ name: 'sepia', value: VINTAGE_SEPIA }, { name: 'vignette', value: VINTAGE_VIGNETTE });
+      break;
+  }
+
+  // Cloudinary's brightness range stops at -99
+  if (adjustments.brightness) {
+    effects.push({ name: 'brightness', value: clamp(Math.round(adjustments.brightness), -99, 100) });
+  }
+  if (adjustments.contrast) {
+    effects.push({ name: 'contrast', value: clamp(Math.round(adjustments.contrast), -100, 100) });
+  }
+  if (adjustments.saturation) {
+    effects.push({ name: 'saturation', value: clamp(Math.round(adjustments.saturation), -100, 100) });
+  }
+
+  return effects.map((effect) => ({ effect }));
+}
+
+/**
+ * Reads adjustments back from the effects built by buildAdjustmentTransformations
+ * @param transformations - Photo overlay transformations; components without an effect are ignored
+ * @returns Adjustments, and whether the photo was harmonized ("Match all photos")
+ */
+export function parseAdjustmentTransformations(
+  transformations: Transformation[]
+): { adjustments: PhotoAdjustments; harmonize: boolean } {
+  const adjustments: PhotoAdjustments = { ...DEFAULT_ADJUSTMENTS };
+  let harmonize = false;
+
+  transformations.forEach(({ effect }) => {
+    if (!effect) {
+      return;
+    }
+    const value = Number(effect.value) || 0;
+    switch (effect.name) {
+      case 'auto_color':
+      case 'auto_brightness':
+      case 'auto_contrast':
+        harmonize = true;
+        break;
+      case 'improve':
+        adjustments.autoImprove = true;
+        break;
+      case 'grayscale':
+        adjustments.filter = 'grayscale';
+        break;
+      case 'sepia':
+        adjustments.filter = effect.value === VINTAGE_SEPIA ? 'vintage' : 'sepia';
+        break;
+      case 'brightness':
+        adjustments.brightness = value;
+        break;
+      case 'contrast':
+        adjustments.contrast = value;
+        break;
+      case 'saturation':
+        adjustments.saturation = value;
+        break;
+    }
+  });
+
+  return { adjustments, harmonize };
+}
+
+/**
+ * Approximates the adjustments with a CSS filter for the editor preview
+ * Harmonization depends on image statistics and is not previewed.
+ * @param adjustments - Photo adjustments (defaults to no changes)
+ * @returns CSS `filter` value, or 'none'
+ */
+export function getAdjustmentCssFilter(adjustments: PhotoAdjustments = DEFAULT_ADJUSTMENTS): string {
+  const filters: string[] = [];
+
+  if (adjustments.autoImprove) {
+    filters.push('contrast(1.05)', 'saturate(1.1)');
+  }
+
+  switch (adjustments.filter) {
+    case 'grayscale':
+      filters.push('grayscale(1)');
+      break;
+    case 'sepia':
+      filters.push('sepia(0.8)');
+      break;
+    case 'vintage':
+      filters.push(`sepia(${VINTAGE_SEPIA / 100})`);
+      break;
+  }
+
+  if (adjustments.brightness) {
+    filters.push(`brightness(${1 + adjustments.brightness / 100})`);
+  }
+  if (adjustments.contrast) {
+    filters.push(`contrast(${1 + adjustments.contrast / 100})`);
+  }
+  if (adjustments.saturation) {
+    filters.push(`saturate(${1 + adjustments.saturation / 100})`);
+  }
+
+  return filters.length > 0 ? filters.join(' ') : 'none';
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
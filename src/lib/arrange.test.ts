@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { rankArrangements, scorePhotoForSlot, type Arrangement, type ArrangePhoto } from './arrange';
+import type { Rect } from './layouts';
+
+const wide: Rect = { x: 0, y: 0, width: 600, height: 300 };
+const square: Rect = { x: 600, y: 0, width: 300, height: 300 };
+const tall: Rect = { x: 900, y: 0, width: 200, height: 400 };
+const slots = [wide, square, tall];
+const totalArea = slots.reduce((sum, slot) => sum + slot.width * slot.height, 0);
+
+const landscape: ArrangePhoto = { publicId: 'landscape', width: 4000, height: 2000 };
+const even: ArrangePhoto = { publicId: 'square', width: 3000, height: 3000 };
+const portrait: ArrangePhoto = { publicId: 'portrait', width: 2000, height: 4000 };
+
+// Total cost of an arrangement, to compare against every possible one
+function getCost(photos: ArrangePhoto[], arrangement: Arrangement): number {
+  return arrangement.reduce<number>(
+    (sum, photo, slot) => sum + (photo === null ? 0 : scorePhotoForSlot(photos[photo], slots[slot], totalArea)),
+    0
+  );
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+describe('scorePhotoForSlot', () => {
+  it('costs nothing when the shapes match and more the further apart they are', () => {
+    expect(scorePhotoForSlot(landscape, wide, totalArea)).toBe(0);
+    expect(scorePhotoForSlot(even, wide, totalArea)).toBeCloseTo(Math.log(2));
+    expect(scorePhotoForSlot(portrait, wide, totalArea)).toBeCloseTo(Math.log(4));
+  });
+
+  it('gives photos of unknown size a middling cost', () => {
+    expect(scorePhotoForSlot({ publicId: 'unknown' }, wide, totalArea)).toBe(0.35);
+  });
+
+  it('counts faces that would be cut off against the photo', () => {
+    // Faces at both ends of a wide photo: a square crop can't keep both
+    const group: ArrangePhoto = { ...landscape, faces: [[0, 800, 400, 400], [3600, 800, 400, 400]] };
+    const single: ArrangePhoto = { ...landscape, faces: [[1800, 800, 400, 400]] };
+    expect(scorePhotoForSlot(group, square, totalArea)).toBeGreaterThan(scorePhotoForSlot(single, square, totalArea) + 1);
+  });
+
+  it('prefers faces in large slots', () => {
+    const face: ArrangePhoto = { ...even, faces: [[1300, 1300, 400, 400]] };
+    const small: Rect = { x: 0, y: 0, width: 100, height: 100 };
+    expect(scorePhotoForSlot(face, square, totalArea)).toBeLessThan(scorePhotoForSlot(face, small, totalArea));
+  });
+});
+
+describe('rankArrangements', () => {
+  it('puts each photo in the slot of its shape', () => {
+    const [best] = rankArrangements([portrait, landscape, even], slots);
+    expect(best).toEqual([1, 2, 0]);
+  });
+
+  it('ranks every distinct arrangement from cheapest up', () => {
+    const photos = [portrait, landscape, even];
+    const ranked = rankArrangements(photos, slots, 10);
+    expect(ranked).toHaveLength(6);
+    expect(new Set(ranked.map((arrangement) => arrangement.join())).size).toBe(6);
+
+    const costs = ranked.map((arrangement) => getCost(photos, arrangement));
+    expect(costs).toEqual([...costs].sort((a, b) => a - b));
+    const cheapest = Math.min(...permutations([0, 1, 2]).map((arrangement) => getCost(photos, arrangement)));
+    expect(costs[0]).toBeCloseTo(cheapest);
+  });
+
+  it('returns at most `count` arrangements', () => {
+    expect(rankArrangements([portrait, landscape, even], slots, 2)).toHaveLength(2);
+  });
+
+  it('picks the best-fitting photos when there are more photos than slots', () => {
+    const photos = [portrait, { ...portrait, publicId: 'portrait-2' }, landscape, even];
+    const [best] = rankArrangements(photos, slots);
+    expect(best[0]).toBe(2);
+    expect(best[1]).toBe(3);
+    expect([0, 1]).toContain(best[2]);
+  });
+
+  it('leaves slots empty when there are fewer photos than slots', () => {
+    const [best] = rankArrangements([portrait, landscape], slots);
+    expect(best).toEqual([1, null, 0]);
+  });
+
+  it('returns nothing without photos or slots', () => {
+    expect(rankArrangements([], slots)).toEqual([]);
+    expect(rankArrangements([portrait], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import type { Rect } from './layouts';
+
+/**
+ * Auto-arrange: assigns photos to layout slots so each photo's shape suits its slot
+ *
+ * Every photo/slot pair gets a cost (see scorePhotoForSlot); the cheapest assignment is found with the
+ * Hungarian algorithm, and the next-best ones with Murty's ranking, which "shuffle" steps through.
+ */
+
+/** Face rectangle [x, y, width, height] in pixels of the original photo, as returned by Cloudinary */
+export type FaceRegion = [number, number, number, number];
+
+export type ArrangePhoto = {
+  publicId: string;
+  width?: number;
+  height?: number;
+  faces?: FaceRegion[];
+};
+
+/** Photo index per slot; null leaves the slot empty */
+export type Arrangement = Array<number | null>;
+
+// Cost weights: how much a cut-off face and a face in a large slot count against the aspect mismatch
+const FACE_CUT_WEIGHT = 2;
+const FACE_AREA_BONUS = 0.5;
+// Cost for photos of unknown size (e.g. reopened from a URL): between a good and a poor fit
+const UNKNOWN_ASPECT_COST = 0.35;
+
+// Forbidden pairs in the ranking get this cost, far above any real score
+const FORBIDDEN = 1e9;
+
+/**
+ * Scores how well a photo fits a slot; lower is better
+ * - aspect: |log(photo aspect / slot aspect)|, 0 when the shapes match
+ * - faces: the share of face area cut off when the photo is cropped to the slot
+ *   (the crop is centered on the faces, like g_faces), and a small bonus for faces in large slots
+ * @param photo - Photo size and face regions
+ * @param slot - Slot rectangle
+ * @param totalArea - Combined area of all slots, to tell large slots from small ones
+ * @returns Cost
+ */
+export function scorePhotoForSlot(photo: ArrangePhoto, slot: Rect, totalArea: number): number {
+  if (!photo.width || !photo.height) {
+    return UNKNOWN_ASPECT_COST;
+  }
+  const photoAspect = photo.width / photo.height;
+  const slotAspect = slot.width / slot.height;
+  let cost = Math.abs(Math.log(photoAspect / slotAspect));
+
+  const faces = photo.faces || [];
+  if (faces.length > 0) {
+    // Crop window that fills the slot at zoom 1, in photo pixels
+    const windowWidth = photoAspect > slotAspect ? photo.height * slotAspect : photo.width;
+    const windowHeight = photoAspect > slotAspect ? photo.height : photo.width / slotAspect;
+
+    // Center it on the faces, kept inside the photo
+    const left = Math.min(...faces.map(([x]) => x));
+    const top = Math.min(...faces.map(([, y]) => y));
+    const right = Math.max(...faces.map(([x, , w]) => x + w));
+    const bottom = Math.max(...faces.map(([, y, , h]) => y + h));
+    const windowX = clamp((left + right) / 2 - windowWidth / 2, 0, photo.width - windowWidth);
+    const windowY = clamp((top + bottom) / 2 - windowHeight / 2, 0, photo.height - windowHeight);
+
+    let faceArea = 0;
+    let visibleArea = 0;
+    faces.forEach(([x, y, w, h]) => {
+      faceArea += w * h;
+      const visibleWidth = Math.max(0, Math.min(x + w, windowX + windowWidth) - Math.max(x, windowX));
+      const visibleHeight = Math.max(0, Math.min(y + h, windowY + windowHeight) - Math.max(y, windowY));
+      visibleArea += visibleWidth * visibleHeight;
+    });
+    if (faceArea > 0) {
+      cost += FACE_CUT_WEIGHT * (1 - visibleArea / faceArea);
+    }
+    cost -= FACE_AREA_BONUS * ((slot.width * slot.height) / totalArea);
+  }
+  return cost;
+}
+
+/**
+ * Cheapest assignment of every row to a distinct column (Hungarian algorithm, rows <= columns)
+ * @returns Column per row and the total cost
+ */
+function solveAssignment(cost: number[][]): { columns: number[]; total: number } {
+  const rows = cost.length;
+  const cols = cost[0].length;
+  // 1-based potentials and matching, column 0 is a virtual start
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(cols + 1).fill(0);
+  const match = new Array(cols + 1).fill(0); // Row matched to each column
+  const way = new Array(cols + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    match[0] = row;
+    let col0 = 0;
+    const minv = new Array(cols + 1).fill(Infinity);
+    const used = new Array(cols + 1).fill(false);
+    do {
+      used[col0] = true;
+      const row0 = match[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= cols; col++) {
+        if (used[col]) continue;
+        const reduced = cost[row0 - 1][col - 1] - u[row0] - v[col];
+        if (reduced < minv[col]) {
+          minv[col] = reduced;
+          way[col] = col0;
+        }
+        if (minv[col] < delta) {
+          delta = minv[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= cols; col++) {
+        if (used[col]) {
+          u[match[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minv[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (match[col0] !== 0);
+    do {
+      const col1 = way[col0];
+      match[col0] = match[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const columns = new Array(rows).fill(-1);
+  for (let col = 1; col <= cols; col++) {
+    if (match[col] !== 0) {
+      columns[match[col] - 1] = col - 1;
+    }
+  }
+  const total = columns.reduce((sum, col, row) => sum + cost[row][col], 0);
+  return { columns, total };
+}
+
+type Subproblem = {
+  forced: Array<[number, number]>;
+  forbidden: Array<[number, number]>;
+  columns: number[];
+  total: number;
+};
+
+function solveSubproblem(
+  cost: number[][],
+  forced: Array<[number, number]>,
+  forbidden: Array<[number, number]>
+): Subproblem | null {
+  const constrained = cost.map((row) => [...row]);
+  forbidden.forEach(([row, col]) => {
+    constrained[row][col] = FORBIDDEN;
+  });
+  forced.forEach(([row, col]) => {
+    constrained[row].forEach((_, other) => {
+      if (other !== col) constrained[row][other] = FORBIDDEN;
+    });
+    constrained.forEach((other, otherRow) => {
+      if (otherRow !== row) other[col] = FORBIDDEN;
+    });
+  });
+  const { columns, total } = solveAssignment(constrained);
+  // The cheapest assignment still uses a forbidden pair when no allowed one exists
+  const isFeasible = columns.every((col, row) => constrained[row][col] < FORBIDDEN);
+  return isFeasible ? { forced, forbidden, columns, total } : null;
+}
+
+/**
+ * Ranks assignments from cheapest up (Murty's algorithm)
+ * @param cost - Cost matrix with rows <= columns
+ * @param count - Number of assignments to return
+ * @returns Up to `count` assignments (column per row), cheapest first
+ */
+function rankAssignments(cost: number[][], count: number): number[][] {
+  const first = solveSubproblem(cost, [], []);
+  const queue: Subproblem[] = first ? [first] : [];
+  const ranked: number[][] = [];
+
+  while (queue.length > 0 && ranked.length < count) {
+    queue.sort((a, b) => a.total - b.total);
+    const best = queue.shift()!;
+    ranked.push(best.columns);
+
+    // Split the rest of this subproblem's solutions: the i-th child keeps the first i-1 free rows
+    // as in `best` and must change row i
+    const forcedRows = new Set(best.forced.map(([row]) => row));
+    const forced = [...best.forced];
+    best.columns.forEach((col, row) => {
+      if (forcedRows.has(row)) return;
+      const child = solveSubproblem(cost, [...forced], [...best.forbidden, [row, col]]);
+      if (child) queue.push(child);
+      forced.push([row, col]);
+    });
+  }
+  return ranked;
+}
+
+/**
+ * Finds the best arrangements of photos in slots
+ * With more photos than slots, the best-fitting photos are picked; with fewer, some slots stay empty.
+ * @param photos - Candidate photos
+ * @param slots - Slot rectangles, in slot order
+ * @param count - Number of arrangements to return (for shuffling)
+ * @returns Arrangements, best first
+ */
+export function rankArrangements(photos: ArrangePhoto[], slots: Rect[], count = 10): Arrangement[] {
+  if (photos.length === 0 || slots.length === 0) {
+    return [];
+  }
+  const totalArea = slots.reduce((sum, slot) => sum + slot.width * slot.height, 0);
+  const scores = slots.map((slot) => photos.map((photo) => scorePhotoForSlot(photo, slot, totalArea)));
+
+  // The Hungarian algorithm needs rows <= columns, so rows are whichever of slots and photos is fewer
+  if (slots.length <= photos.length) {
+    return rankAssignments(scores, count);
+  }
+  const transposed = photos.map((_, photo) => slots.map((_, slot) => scores[slot][photo]));
+  return rankAssignments(transposed, count).map((slotPerPhoto) => {
+    const arrangement: Arrangement = slots.map(() => null);
+    slotPerPhoto.forEach((slot, photo) => {
+      arrangement[slot] = photo;
+    });
+    return arrangement;
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { applyPhotoOverrides, parseRecipients } from './batch';
+import type { ProjectPhoto } from './projects';
+
+const library: ProjectPhoto[] = [
+  { publicId: 'family-collage/s/p/tree', url: 'https://example.com/tree.jpg', fileName: 'IMG_2041.jpg' },
+  { publicId: 'family-collage/s/p/kids', url: 'https://example.com/kids.jpg', fileName: 'IMG_2042.jpg' },
+  { publicId: 'family-collage/s/p/dog', url: 'https://example.com/dog.jpg', fileName: 'IMG_2043.jpg' },
+];
+
+describe('parseRecipients', () => {
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    const result = parseRecipients('name,greeting,photos\r\n"Smith, Jones","Say ""hi""\r\nto all",IMG_2041.jpg|IMG_2042.jpg\r\n');
+    expect(result).toEqual({
+      ok: true,
+      recipients: [{ name: 'Smith, Jones', greeting: 'Say "hi"\r\nto all', photos: ['IMG_2041.jpg', 'IMG_2042.jpg'] }],
+    });
+  });
+
+  it('skips the byte order mark and uses semicolons when the header has more of them', () => {
+    const result = parseRecipients('\uFEFFName;Greeting\nThe Smiths;Merry, merry\n');
+    expect(result).toEqual({ ok: true, recipients: [{ name: 'The Smiths', greeting: 'Merry, merry' }] });
+  });
+
+  it('reports an unclosed quote instead of reading the rest of the file into one cell', () => {
+    const result = parseRecipients('name,greeting\nThe Smiths,"Merry\nThe Joneses,Happy\n');
+    expect(result).toEqual({ ok: false, errors: ['Line 2: a quoted cell is never closed (a " is missing)'] });
+  });
+
+  it('numbers missing names by the line they are on, past blank lines and multi-line cells', () => {
+    const result = parseRecipients('\n\nname,greeting\n\nThe Smiths,"Merry\nChristmas"\n,Happy\n');
+    expect(result).toEqual({ ok: false, errors: ['Line 7: name is missing'] });
+  });
+
+  it('reads a JSON array of recipients', () => {
+    const result = parseRecipients('\n[{ "name": "The Smiths", "photos": "IMG_2041.jpg | IMG_2043.jpg" }]');
+    expect(result).toEqual({ ok: true, recipients: [{ name: 'The Smiths', photos: ['IMG_2041.jpg', 'IMG_2043.jpg'] }] });
+  });
+
+  it('rejects a file without recipients', () => {
+    expect(parseRecipients('name\n\n')).toEqual({ ok: false, errors: ['The file has no recipients'] });
+    expect(parseRecipients('""')).toMatchObject({ ok: false });
+  });
+});
+
+describe('applyPhotoOverrides', () => {
+  const layout = [{ ...library[0], crop: undefined }, null, library[2]];
+
+  it('replaces slots in order by file name or public ID', () => {
+    const result = applyPhotoOverrides(layout, library, ['img_2042.JPG', 'family-collage/s/p/tree']);
+    expect(result.layout.map((photo) => photo?.publicId ?? null)).toEqual([
+      'family-collage/s/p/kids',
+      'family-collage/s/p/tree',
+      'family-collage/s/p/dog',
+    ]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it("keeps the editor's photo in a slot whose reference matches nothing, without shifting later slots", () => {
+    const result = applyPhotoOverrides(layout, library, ['missing.jpg', 'IMG_2041.jpg']);
+    expect(result.layout.map((photo) => photo?.publicId ?? null)).toEqual([
+      'family-collage/s/p/tree',
+      'family-collage/s/p/tree',
+      'family-collage/s/p/dog',
+    ]);
+    expect(result.missing).toEqual(['missing.jpg']);
+  });
+});
@@ -0,0 +1,281 @@
+import type { PlacedProjectPhoto, ProjectPhoto } from './projects';
+
+/**
+ * Batch mode: one card per recipient, all from the same layout, theme and photos
+ * Recipients come from a CSV file with a header row (name, greeting, photos) or a JSON array of objects
+ * with the same fields; only the name is required.
+ */
+
+export type BatchRecipient = {
+  /** Filled into the greeting as {name} */
+  name: string;
+  /** Greeting title for this card instead of the editor's; may use {name} and {year} */
+  greeting?: string;
+  /** Photos for this card, by library file name or public ID; they take the slots in order, from the first */
+  photos?: string[];
+};
+
+export type RecipientsResult = { ok: true; recipients: BatchRecipient[] } | { ok: false; errors: string[] };
+
+/** Rendering is sequential, so a longer list would keep the browser busy for too long */
+export const MAX_RECIPIENTS = 200;
+
+// Photos in one CSV cell are separated by "|", which can't clash with either CSV delimiter
+const PHOTO_SEPARATOR = '|';
+const CSV_DELIMITERS = [',', ';', '\t'];
+const COLUMN_ALIASES: Record<string, keyof BatchRecipient> = {
+  name: 'name',
+  family: 'name',
+  familyname: 'name',
+  greeting: 'greeting',
+  title: 'greeting',
+  photo: 'photos',
+  photos: 'photos',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function splitPhotos(cell: string): string[] {
+  return cell
+    .split(PHOTO_SEPARATOR)
+    .map((reference) => reference.trim())
+    .filter(Boolean);
+}
+
+type CsvRecord = {
+  cells: string[];
+  /** Line of the file the record starts on; a quoted cell may run over several lines */
+  line: number;
+};
+
+/**
+ * Splits CSV text into records of cells (RFC 4180: quoted cells may hold delimiters, quotes and line breaks)
+ * @param text - CSV text
+ * @param delimiter - Cell delimiter
+ * @returns Records, blank lines included, or an error if a quoted cell is never closed
+ */
+function parseCsvRecords(text: string, delimiter: string): { ok: true; records: CsvRecord[] } | { ok: false; error: string } {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    records.push({ cells, line: recordLine });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const isLineBreak = char === '\n' || char === '\r';
+    if (char === '\r' && text[i + 1] === '\n') {
+      // CRLF is one line break; keep both characters inside quoted cells
+      if (inQuotes) {
+        cell += char;
+      }
+      continue;
+    }
+    if (isLineBreak) {
+      line++;
+    }
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (isLineBreak) {
+      endRecord();
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    return { ok: false, error: `Line ${quoteLine}: a quoted cell is never closed (a " is missing)` };
+  }
+  endRecord();
+  return { ok: true, records };
+}
+
+function parseCsvRecipients(text: string): RecipientsResult {
+  // Spreadsheets set to a comma decimal separator save with semicolons; use whichever the header line has most of
+  const headerLine = text.split(/\r?\n/).find((line) => line.trim()) ?? '';
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+  const parsed = parseCsvRecords(text, delimiter);
+  if (!parsed.ok) {
+    return { ok: false, errors: [parsed.error] };
+  }
+  const [header, ...records] = parsed.records.filter((record) => record.cells.some((cell) => cell.trim()));
+
+  const columns = (header?.cells ?? []).map((title) => COLUMN_ALIASES[title.trim().toLowerCase().replace(/[\s_-]/g, '')]);
+  if (!columns.includes('name')) {
+    return { ok: false, errors: ['The first row must be a header with a "name" column (and optionally "greeting" and "photos")'] };
+  }
+
+  const errors: string[] = [];
+  const recipients = records.map(({ cells, line }) => {
+    const recipient: BatchRecipient = { name: '' };
+    cells.forEach((cell, column) => {
+      const field = columns[column];
+      const value = cell.trim();
+      if (field === 'name') {
+        recipient.name = value;
+      } else if (field === 'greeting' && value) {
+        recipient.greeting = value;
+      } else if (field === 'photos' && value) {
+        recipient.photos = splitPhotos(value);
+      }
+    });
+    if (!recipient.name) {
+      // Numbered by line, as a text editor shows the file
+      errors.push(`Line ${line}: name is missing`);
+    }
+    return recipient;
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, recipients };
+}
+
+function parseJsonRecipients(text: string): RecipientsResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+  if (!Array.isArray(data)) {
+    return { ok: false, errors: ['The file must be a JSON array of recipients, e.g. [{ "name": "The Smiths" }]'] };
+  }
+
+  const errors: string[] = [];
+  const recipients = data.map((entry, index): BatchRecipient => {
+    const path = `[${index}]`;
+    if (!isObject(entry)) {
+      errors.push(`${path} must be an object`);
+      return { name: '' };
+    }
+    const { name, greeting, photos } = entry;
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push(`${path}.name must be a non-empty string`);
+    }
+    if (greeting !== undefined && typeof greeting !== 'string') {
+      errors.push(`${path}.greeting must be a string`);
+    }
+    const isPhotoList = Array.isArray(photos) && photos.every((photo) => typeof photo === 'string');
+    if (photos !== undefined && typeof photos !== 'string' && !isPhotoList) {
+      errors.push(`${path}.photos must be a string or an array of strings`);
+    }
+    return {
+      name: typeof name === 'string' ? name.trim() : '',
+      greeting: typeof greeting === 'string' && greeting.trim() ? greeting.trim() : undefined,
+      photos:
+        typeof photos === 'string'
+          ? splitPhotos(photos)
+          : isPhotoList
+            ? (photos as string[]).map((photo) => photo.trim()).filter(Boolean)
+            : undefined,
+    };
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, recipients };
+}
+
+/**
+ * Reads a recipient list
+ * @param text - File contents: a JSON array, or CSV with a header row
+ * @returns The recipients, or every problem found (with its CSV line or JSON array index)
+ */
+export function parseRecipients(text: string): RecipientsResult {
+  // Excel starts UTF-8 CSV files with a byte order mark; the rest is kept as is so CSV line numbers match the file
+  const content = text.replace(/^\uFEFF/, '');
+  if (!content.trim()) {
+    return { ok: false, errors: ['The file is empty'] };
+  }
+  const result = content.trimStart().startsWith('[') ? parseJsonRecipients(content) : parseCsvRecipients(content);
+  if (result.ok && result.recipients.length === 0) {
+    return { ok: false, errors: ['The file has no recipients'] };
+  }
+  if (result.ok && result.recipients.length > MAX_RECIPIENTS) {
+    return { ok: false, errors: [`At most ${MAX_RECIPIENTS} recipients can be generated at once (the file has ${result.recipients.length})`] };
+  }
+  return result;
+}
+
+/**
+ * Puts a recipient's photos into the layout: the first reference in the first slot, the second in the second, ...
+ * Slots without an override, or whose reference matches no photo, keep the editor's photo. Crops and adjustments
+ * belong to the photo they were made for, so a replaced slot starts from the defaults.
+ * @param layout - The editor's photos, indexed by layout slot
+ * @param library - Photo library to look the references up in
+ * @param references - File names or public IDs from the recipient list
+ * @returns The recipient's layout, and the references that matched no photo
+ */
+export function applyPhotoOverrides(
+  layout: Array<PlacedProjectPhoto | null>,
+  library: ProjectPhoto[],
+  references: string[] = []
+): { layout: Array<PlacedProjectPhoto | null>; missing: string[] } {
+  const missing: string[] = [];
+  const overrides = references.map((reference) => {
+    const key = reference.toLowerCase();
+    const photo = library.find(
+      (candidate) => candidate.publicId.toLowerCase() === key || candidate.fileName?.toLowerCase() === key
+    );
+    if (!photo) {
+      missing.push(reference);
+    }
+    return photo ?? null;
+  });
+  return {
+    layout: layout.map((photo, index) => overrides[index] ?? photo),
+    missing,
+  };
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Builds the CSV of a batch's collage URLs
+ * @param cards - Recipient and rendered URL of each card
+ * @returns CSV text with a header row: name, greeting, url
+ */
+export function buildBatchUrlsCsv(cards: Array<{ recipient: BatchRecipient; url: string }>): string {
+  const rows = [
+    ['name', 'greeting', 'url'],
+    ...cards.map(({ recipient, url }) => [recipient.name, recipient.greeting ?? '', url]),
+  ];
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Makes file names unique within a batch, for recipients that share a name
+ * @param fileNames - File names in order
+ * @returns The same names, with "-2", "-3"... before the extension of repeats
+ */
+export function getUniqueFileNames(fileNames: string[]): string[] {
+  const seen = new Map<string, number>();
+  return fileNames.map((fileName) => {
+    const count = (seen.get(fileName) ?? 0) + 1;
+    seen.set(fileName, count);
+    return count === 1 ? fileName : fileName.replace(/(\.[^.]+)?$/, `-${count}$1`);
+  });
+}
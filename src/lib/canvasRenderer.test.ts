@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadCollageFonts } from './canvasRenderer';
+
+// Just enough of the DOM for loadCollageFonts: stylesheet links load as soon as they are added
+function stubDocument() {
+  const links: Array<{ href: string }> = [];
+  const loadedFonts: string[] = [];
+  vi.stubGlobal('document', {
+    createElement: () => ({}),
+    head: {
+      appendChild: (link: { href: string; onload?: () => void }) => {
+        links.push(link);
+        link.onload?.();
+      },
+    },
+    fonts: {
+      load: async (font: string) => {
+        loadedFonts.push(font);
+        return [];
+      },
+    },
+  });
+  return { links, loadedFonts };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadCollageFonts', () => {
+  it('adds the Google Fonts stylesheet of a web font once', async () => {
+    const { links, loadedFonts } = stubDocument();
+    const line = { text: 'The Smiths', fontFamily: 'Lobster', fontSize: 64 };
+    await loadCollageFonts([line, { ...line, fontSize: 32 }]);
+    expect(links.map((link) => link.href)).toEqual(['https://fonts.googleapis.com/css2?family=Lobster&display=swap']);
+    expect(loadedFonts).toEqual(['64px "Lobster"', '32px "Lobster"']);
+  });
+
+  it('makes no network requests without web fonts, for the offline backend', async () => {
+    const { links, loadedFonts } = stubDocument();
+    await loadCollageFonts([{ text: '김씨 가족', fontFamily: 'Noto Sans KR', fontSize: 64 }], false);
+    expect(links).toEqual([]);
+    expect(loadedFonts).toEqual(['64px "Noto Sans KR"']);
+  });
+
+  it('skips system fonts', async () => {
+    const { links } = stubDocument();
+    await loadCollageFonts([{ text: 'The Smiths', fontFamily: 'Arial', fontSize: 64 }]);
+    expect(links).toEqual([]);
+  });
+});
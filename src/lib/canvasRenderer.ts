@@ -0,0 +1,357 @@
+import { getAdjustmentCssFilter } from './adjustments';
+import { getCollageGeometry, type CollageOptions, type CollagePhoto, type TextLineLayout } from './collage';
+import { DEFAULT_CROP, MAX_ZOOM } from './crop';
+import type { Rect } from './layouts';
+import { getCollageTheme } from './themes';
+
+/**
+ * Draws a collage on a canvas from the same geometry the Cloudinary URL is built from (see getCollageGeometry)
+ * Used for the live preview, for downloads that don't depend on Cloudinary, and by the local backend.
+ */
+
+export type DecodedImage = HTMLImageElement | ImageBitmap;
+
+/** A photo to draw, with the URL to load it from */
+export type RenderablePhoto = CollagePhoto & {
+  url: string;
+};
+
+export type CollageImageFormat = 'image/png' | 'image/jpeg';
+
+/** Formats a card is downloaded in: images, the print PDF, and a batch's ZIP of images or CSV of URLs */
+export type CollageFileFormat = CollageImageFormat | 'application/pdf' | 'application/zip' | 'text/csv';
+
+const FILE_EXTENSIONS: Record<CollageFileFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'text/csv': 'csv',
+};
+
+type CanvasTarget = HTMLCanvasElement | OffscreenCanvas;
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Fonts the greeting can use (see greeting.ts and textLayer.ts) that are served by Google Fonts; Arial is a system font
+const GOOGLE_FONTS = [
+  'Pacifico',
+  'Lobster',
+  'Montserrat',
+  'Merriweather',
+  'Noto Sans KR',
+  'Noto Sans JP',
+  'Noto Sans SC',
+  'Noto Sans Arabic',
+  'Noto Sans Hebrew',
+  'Noto Sans Thai',
+];
+
+// Text is drawn with a fallback font rather than waiting forever for a font that won't load (e.g. offline)
+const FONT_TIMEOUT_MS = 3000;
+
+function getImageSize(image: DecodedImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+/**
+ * Loads an image for drawing on a canvas
+ * @param url - Image URL (object URLs work too)
+ * @returns The decoded image
+ */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous'; // Keeps the canvas exportable when the image comes from another origin
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image ${url}`));
+    image.src = url;
+  });
+}
+
+/**
+ * Loads an image once per cache, so redrawing the live preview doesn't fetch the photos again
+ * A failed load is dropped from the cache, so it is tried again next time (e.g. the network is back).
+ * @param url - Image URL
+ * @param cache - Images loaded so far, by URL
+ * @returns The decoded image
+ */
+export function loadCachedImage(url: string, cache: Map<string, Promise<DecodedImage>>): Promise<DecodedImage> {
+  let image = cache.get(url);
+  if (!image) {
+    image = loadImage(url);
+    image.catch(() => cache.delete(url));
+    cache.set(url, image);
+  }
+  return image;
+}
+
+/**
+ * Loads the photos of a collage, leaving slots whose photo fails to load empty
+ * @param photos - Photos indexed by layout slot
+ * @param cache - Images loaded so far, by URL
+ * @returns Photos with their images, indexed by layout slot
+ */
+export async function loadCollagePhotos(
+  photos: Array<RenderablePhoto | null>,
+  cache: Map<string, Promise<DecodedImage>> = new Map()
+): Promise<Array<{ photo: CollagePhoto; image: DecodedImage } | null>> {
+  return Promise.all(
+    photos.map(async (photo) => {
+      if (!photo) return null;
+      try {
+        return { photo, image: await loadCachedImage(photo.url, cache) };
+      } catch (error) {
+        console.warn(error);
+        return null;
+      }
+    })
+  );
+}
+
+/**
+ * File name for a downloaded collage image, print PDF or batch export
+ * @param name - Card name, e.g. "Smith 2025"
+ * @param format - File format
+ * @returns e.g. "smith-2025.png"
+ */
+export function getCollageImageFileName(name: string, format: CollageFileFormat): string {
+  const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'collage'}.${FILE_EXTENSIONS[format]}`;
+}
+
+const fontStylesheets = new Map<string, Promise<void>>();
+
+// Adds the Google Fonts stylesheet for a font once; resolves when it has loaded (or failed)
+function requestGoogleFont(fontFamily: string): Promise<void> {
+  let stylesheet = fontStylesheets.get(fontFamily);
+  if (!stylesheet) {
+    stylesheet = new Promise<void>((resolve) => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily)}&display=swap`;
+      link.onload = () => resolve();
+      link.onerror = () => resolve();
+      document.head.appendChild(link);
+    });
+    fontStylesheets.set(fontFamily, stylesheet);
+  }
+  return stylesheet;
+}
+
+/**
+ * Loads the web fonts used by text lines, so the canvas draws them in the right font
+ * Gives up after a few seconds (e.g. offline); the text then falls back to a system font.
+ * @param textLines - Text and the font it is drawn in, e.g. the greeting lines from getCollageGeometry
+ * @param webFonts - Whether fonts may be fetched from Google Fonts; without, only fonts installed on the device are used
+ */
+export async function loadCollageFonts(
+  textLines: Array<Pick<TextLineLayout, 'text' | 'fontFamily' | 'fontSize'>>,
+  webFonts = true
+): Promise<void> {
+  if (typeof document === 'undefined' || !document.fonts) {
+    return;
+  }
+  const loads = textLines.map(async (line) => {
+    if (webFonts && GOOGLE_FONTS.includes(line.fontFamily)) {
+      await requestGoogleFont(line.fontFamily);
+    }
+    await document.fonts.load(`${line.fontSize}px "${line.fontFamily}"`, line.text).catch(() => []);
+  });
+  await Promise.race([Promise.all(loads), new Promise((resolve) => setTimeout(resolve, FONT_TIMEOUT_MS))]);
+}
+
+function roundedRectPath(context: Context2D, rect: Rect, radius: number) {
+  const r = Math.min(radius, rect.width / 2, rect.height / 2);
+  context.beginPath();
+  context.moveTo(rect.x + r, rect.y);
+  context.arcTo(rect.x + rect.width, rect.y, rect.x + rect.width, rect.y + rect.height, r);
+  context.arcTo(rect.x + rect.width, rect.y + rect.height, rect.x, rect.y + rect.height, r);
+  context.arcTo(rect.x, rect.y + rect.height, rect.x, rect.y, r);
+  context.arcTo(rect.x, rect.y, rect.x + rect.width, rect.y, r);
+  context.closePath();
+}
+
+/**
+ * Draws a photo into its slot the way buildCropTransformations crops it: flips and rotation first,
+ * then a window that covers the slot (shrunk by the zoom), positioned by the manual focal point or centered
+ * Automatic and face gravity can't be reproduced without Cloudinary's detection, so they crop from the center.
+ */
+function drawPhoto(context: Context2D, image: DecodedImage, photo: CollagePhoto, slot: Rect) {
+  const crop = photo.crop || DEFAULT_CROP;
+  const { width, height } = getImageSize(image);
+  const isSideways = crop.rotation === 90 || crop.rotation === 270;
+  const orientedWidth = isSideways ? height : width;
+  const orientedHeight = isSideways ? width : height;
+
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, crop.zoom));
+  const scale = Math.max(slot.width / orientedWidth, slot.height / orientedHeight) * zoom;
+  const windowWidth = slot.width / scale;
+  const windowHeight = slot.height / scale;
+  const focalX = crop.gravity === 'manual' ? crop.focalX : 0.5;
+  const focalY = crop.gravity === 'manual' ? crop.focalY : 0.5;
+  const windowX = Math.min(1, Math.max(0, focalX)) * (orientedWidth - windowWidth);
+  const windowY = Math.min(1, Math.max(0, focalY)) * (orientedHeight - windowHeight);
+
+  // Transforms apply last-first: flip, then rotate about the center, then place the window on the slot
+  context.translate(slot.x - windowX * scale, slot.y - windowY * scale);
+  context.scale(scale, scale);
+  context.translate(orientedWidth / 2, orientedHeight / 2);
+  context.rotate((crop.rotation * Math.PI) / 180);
+  context.scale(crop.flipHorizontal ? -1 : 1, crop.flipVertical ? -1 : 1);
+  context.filter = getAdjustmentCssFilter(photo.adjustments);
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+}
+
+/**
+ * Renders a collage onto a canvas, resizing the canvas to the output preset
+ * Web fonts must be loaded first (see loadCollageFonts), or the text is drawn in a fallback font.
+ * @param canvas - Canvas (or OffscreenCanvas) to draw on
+ * @param photos - Photos indexed by layout slot, each with its decoded image; null leaves the slot empty
+ * @param familyName - Family name filled into the greeting
+ * @param options - Layout and styling options
+ * @param background - Background image, drawn to fill the canvas; without one the theme's background color is used
+ * @param bleed - Extra pixels on every side for print; the background and ribbon run into them, the layout doesn't move
+ */
+export function renderCollageToCanvas(
+  canvas: CanvasTarget,
+  photos: Array<{ photo: CollagePhoto; image: DecodedImage } | null>,
+  familyName: string,
+  options: CollageOptions = {},
+  background?: DecodedImage | null,
+  bleed = 0
+) {
+  const { canvasWidth, canvasHeight, scale, slots, ribbon, textLines, maxTextWidth } = getCollageGeometry(
+    options,
+    familyName
+  );
+  const theme = getCollageTheme(options.themeId);
+  const fullWidth = canvasWidth + bleed * 2;
+  const fullHeight = canvasHeight + bleed * 2;
+  canvas.width = fullWidth;
+  canvas.height = fullHeight;
+  const context = canvas.getContext('2d') as Context2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // Background, cropped to fill like c_fill
+  if (background) {
+    const { width, height } = getImageSize(background);
+    const coverScale = Math.max(fullWidth / width, fullHeight / height);
+    context.drawImage(
+      background,
+      (fullWidth - width * coverScale) / 2,
+      (fullHeight - height * coverScale) / 2,
+      width * coverScale,
+      height * coverScale
+    );
+  } else {
+    context.fillStyle = `#${theme.backgroundColor}`;
+    context.fillRect(0, 0, fullWidth, fullHeight);
+  }
+  // The layout is drawn inside the bleed
+  context.translate(bleed, bleed);
+
+  // Photos, clipped to rounded corners, with the theme border on top
+  const cornerRadius = Math.round(theme.cornerRadius * scale);
+  const borderWidth = theme.borderWidth > 0 ? Math.max(1, Math.round(theme.borderWidth * scale)) : 0;
+  photos.slice(0, slots.length).forEach((entry, index) => {
+    if (!entry) return;
+    const slot = slots[index];
+    context.save();
+    roundedRectPath(context, slot, cornerRadius);
+    context.clip();
+    drawPhoto(context, entry.image, entry.photo, slot);
+    context.restore();
+
+    if (borderWidth > 0) {
+      const inset = borderWidth / 2;
+      context.save();
+      roundedRectPath(
+        context,
+        { x: slot.x + inset, y: slot.y + inset, width: slot.width - borderWidth, height: slot.height - borderWidth },
+        Math.max(0, cornerRadius - inset)
+      );
+      context.lineWidth = borderWidth;
+      context.strokeStyle = `#${theme.borderColor}`;
+      context.stroke();
+      context.restore();
+    }
+  });
+
+  // Ribbon and greeting
+  if (ribbon) {
+    context.save();
+    context.globalAlpha = theme.ribbon.opacity / 100;
+    context.fillStyle = `#${theme.ribbon.color}`;
+    // A full-width ribbon runs off the trimmed edges
+    const isFullWidth = ribbon.x <= 0 && ribbon.x + ribbon.width >= canvasWidth;
+    context.fillRect(
+      isFullWidth ? -bleed : ribbon.x,
+      ribbon.y,
+      isFullWidth ? fullWidth : ribbon.width,
+      ribbon.height
+    );
+    context.restore();
+  }
+  textLines.forEach((line) => {
+    context.save();
+    context.font = `${line.fontSize}px "${line.fontFamily}", sans-serif`;
+    context.fillStyle = `#${line.color}`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(line.text, canvasWidth / 2, line.centerY, maxTextWidth);
+    context.restore();
+  });
+}
+
+/**
+ * Renders a collage to an image file at full output size
+ * Draws on an OffscreenCanvas where the browser has one, so the page's canvas stays free for the preview.
+ * @param photos - Photos indexed by layout slot; null leaves the slot empty
+ * @param familyName - Family name filled into the greeting
+ * @param options - Layout and styling options
+ * @param output - File format, JPEG quality (0-1), the background image URL if there is one, bleed in pixels,
+ *   and whether fonts may be fetched from Google Fonts (see loadCollageFonts)
+ * @returns The encoded image
+ */
+export async function renderCollageImage(
+  photos: Array<RenderablePhoto | null>,
+  familyName: string,
+  options: CollageOptions = {},
+  {
+    format = 'image/png',
+    quality = 0.92,
+    backgroundUrl,
+    bleed = 0,
+    webFonts = true,
+  }: {
+    format?: CollageImageFormat;
+    quality?: number;
+    backgroundUrl?: string | null;
+    bleed?: number;
+    webFonts?: boolean;
+  } = {}
+): Promise<Blob> {
+  const [entries, background] = await Promise.all([
+    loadCollagePhotos(photos),
+    backgroundUrl ? loadImage(backgroundUrl).catch(() => null) : null,
+    loadCollageFonts(getCollageGeometry(options, familyName).textLines, webFonts),
+  ]);
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(1, 1);
+    renderCollageToCanvas(canvas, entries, familyName, options, background, bleed);
+    return canvas.convertToBlob({ type: format, quality });
+  }
+
+  const canvas = document.createElement('canvas');
+  renderCollageToCanvas(canvas, entries, familyName, options, background, bleed);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, format, quality));
+  if (!blob) {
+    throw new Error('Could not encode the collage');
+  }
+  return blob;
+}
@@ -0,0 +1,129 @@
+import { buildCollageUrl, type CollageOptions, type CollagePhoto } from './collage';
+import { DEFAULT_GREETING } from './greeting';
+import { DEFAULT_LAYOUT_ID } from './layouts';
+import type { MediaBackend, StoredPhoto } from './mediaBackend';
+import { DEFAULT_PRESET_ID } from './presets';
+import { exportProjectFile } from './projectFile';
+import { DEFAULT_THEME_ID } from './themes';
+import { createUploadError, fetchUploadSignature, uploadToCloudinary, type UploadSignature } from './upload';
+
+/**
+ * Asks the server to build and sign the collage URL (see /api/collage-url); the API secret stays on the server
+ */
+async function fetchSignedCollageUrl(
+  photos: Array<(CollagePhoto & StoredPhoto) | null>,
+  familyName: string,
+  options: CollageOptions
+): Promise<string> {
+  const project = exportProjectFile('Collage', {
+    familyName,
+    photos: [],
+    layout: photos.map(
+      (photo) =>
+        photo && {
+          publicId: photo.publicId,
+          url: photo.url,
+          width: photo.width,
+          height: photo.height,
+          crop: photo.crop,
+          adjustments: photo.adjustments,
+        }
+    ),
+    layoutId: options.layoutId ?? DEFAULT_LAYOUT_ID,
+    presetId: options.presetId ?? DEFAULT_PRESET_ID,
+    themeId: options.themeId ?? DEFAULT_THEME_ID,
+    greeting: options.greeting ?? DEFAULT_GREETING,
+    harmonizeColors: options.harmonizeColors ?? false,
+  });
+  const response = await fetch('/api/collage-url', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: project,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || typeof data?.url !== 'string') {
+    throw new Error(data?.errors?.join('\n') || `Signing the collage URL failed (HTTP ${response.status})`);
+  }
+  return data.url;
+}
+
+// Signatures are renewed this long before they expire, so an upload never starts with one about to lapse
+const SIGNATURE_RENEW_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Media backend that stores photos in Cloudinary and renders collages from Cloudinary delivery URLs
+ * @param cloudName - Cloudinary cloud name
+ * @param uploadPreset - Unsigned upload preset, used only with unsignedUploads
+ * @param options - signedUrls: get collage URLs signed by the server, for accounts with strict transformations on;
+ *   unsignedUploads: upload with the preset instead of server-issued signatures (explicit opt-in)
+ * @returns Backend
+ */
+export function createCloudinaryBackend(
+  cloudName: string,
+  uploadPreset: string,
+  { signedUrls = false, unsignedUploads = false }: { signedUrls?: boolean; unsignedUploads?: boolean } = {}
+): MediaBackend {
+  // One signature covers every upload to a project's folder until it expires
+  const signatures = new Map<string, Promise<UploadSignature>>();
+
+  const getUploadSignature = async (projectId: string | undefined) => {
+    const key = projectId ?? '';
+    let signature = signatures.get(key);
+    if (signature) {
+      const { expiresAt } = await signature.catch(() => ({ expiresAt: 0 }));
+      if (expiresAt - SIGNATURE_RENEW_MARGIN_MS <= Date.now()) {
+        signature = undefined;
+      }
+    }
+    if (!signature) {
+      signature = fetchUploadSignature(projectId ?? null);
+      signatures.set(key, signature);
+    }
+    return signature;
+  };
+
+  return {
+    kind: 'cloudinary',
+    webFonts: true,
+
+    upload: async (file, options = {}) => {
+      if (!cloudName || (unsignedUploads && !uploadPreset)) {
+        throw new Error('Cloudinary configuration missing. Please check your environment variables.');
+      }
+      if (unsignedUploads) {
+        return uploadToCloudinary(file, cloudName, { uploadPreset }, options);
+      }
+      const signature = await getUploadSignature(options.projectId);
+      if (file.size > signature.maxBytes) {
+        // Status 413: the same file fails every time, so it is not retried
+        throw createUploadError(`The file is larger than ${Math.round(signature.maxBytes / 1024 / 1024)} MB`, 413);
+      }
+      return uploadToCloudinary(file, cloudName, signature, options);
+    },
+
+    // Thumbnails are requested small from Cloudinary rather than loading full-size originals
+    // Strict transformations would refuse unsigned thumbnail URLs, so signed mode shows the originals
+    getThumbnailUrl: (photo, size) => {
+      if (signedUrls) {
+        return photo.url;
+      }
+      const width = Math.ceil(size / 100) * 100; // Round up so resizing the window reuses cached thumbnails
+      return photo.url.replace('/image/upload/', `/image/upload/c_fill,g_auto,w_${width},h_${width},q_auto,f_auto/`);
+    },
+
+    // Delivery URLs don't expire
+    resolvePhotoUrl: (photo) => Promise.resolve(photo.url),
+
+    getBackgroundUrl: (backgroundId) => `https://res.cloudinary.com/${cloudName}/image/upload/${backgroundId}`,
+
+    // Cloudinary renders the collage when its URL is requested
+    renderCollage: (photos, familyName, options) => {
+      if (!photos.some(Boolean)) {
+        return Promise.resolve('');
+      }
+      return signedUrls
+        ? fetchSignedCollageUrl(photos, familyName, options)
+        : Promise.resolve(buildCollageUrl(cloudName, photos, familyName, options));
+    },
+  };
+}
@@ -1,232 +1,443 @@
-type Photo = {
+import { buildAdjustmentTransformations, type PhotoAdjustments } from './adjustments';
+import { buildCropTransformations, type PhotoCrop } from './crop';
+import { DEFAULT_GREETING, MESSAGE_SIZE_RATIO, getGreetingLines, type Greeting } from './greeting';
+import { computeSlotRects, getLayoutTemplate, type Rect } from './layouts';
+import { getOutputPreset, getPresetScale } from './presets';
+import { estimateTextWidth, resolveTextLayerFont } from './textLayer';
+import { getCollageTheme } from './themes';
+import { buildDeliveryUrl, type DeliveryUrl, type Step, type Transformation } from './transformation';
+
+export type CollagePhoto = {
   publicId: string;
+  /** Original size, used for manual crop focal points */
+  width?: number;
+  height?: number;
+  /** Focus, zoom, rotation and flip within the slot; defaults to automatic gravity */
+  crop?: PhotoCrop;
+  /** Filter and color adjustments; defaults to the original photo */
+  adjustments?: PhotoAdjustments;
+};
+
+export type CollageOptions = {
+  /** Layout template id (see LAYOUT_TEMPLATES); defaults to the 5-photo masonry */
+  layoutId?: string;
+  /** Output preset id (see OUTPUT_PRESETS); defaults to the 1600x900 desktop canvas */
+  presetId?: string;
+  /** Theme id (see COLLAGE_THEMES); defaults to Classic Gold */
+  themeId?: string;
+  /** Greeting lines, year and photo-only mode; defaults to "<family> - Holiday <year>" */
+  greeting?: Greeting;
+  /** "Match all photos": normalize color, brightness and contrast across every photo */
+  harmonizeColors?: boolean;
+  /** Canvas size in pixels, overriding the output preset's (the print export lays the card out at its print size) */
+  canvasSize?: { width: number; height: number };
+};
+
+export type TextLineLayout = {
+  text: string;
+  fontFamily: string;
+  /** Font size in pixels on the output canvas */
+  fontSize: number;
+  /** 6-digit hex color without '#' */
+  color: string;
+  /** Vertical center of the line, in pixels from the top of the canvas */
+  centerY: number;
+  /** True when the line was cut short (with an ellipsis) because it could not fit even at the minimum size */
+  truncated: boolean;
+};
+
+export type CollageGeometry = {
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Multiplier applied to sizes designed for the 1600x900 reference canvas */
+  scale: number;
+  /** Area of the canvas the photos are laid out in (excludes margins and text space) */
+  photoArea: Rect;
+  /** Pixel rectangle of every slot in the layout template, in slot order */
+  slots: Rect[];
+  /** Ribbon behind the greeting; null for photo-only cards */
+  ribbon: Rect | null;
+  /** Greeting lines, top to bottom */
+  textLines: TextLineLayout[];
+  /** Widest a greeting line may be (the canvas width minus margins) */
+  maxTextWidth: number;
 };
 
+// Line height as a multiple of the font size when stacking greeting lines
+const LINE_HEIGHT = 1.1;
+
+// Long lines are shrunk down to this fraction of their requested size before being truncated
+const MIN_FONT_RATIO = 0.5;
+
+type FittedLine = Omit<TextLineLayout, 'centerY'>;
+
 /**
- * Builds a Cloudinary collage URL from uploaded photos and family name
+ * Shrinks a line until its estimated width fits, truncating it with an ellipsis as a last resort
+ */
+function shrinkLine(line: FittedLine, maxWidth: number): FittedLine {
+  const width = estimateTextWidth(line.text, line.fontFamily, line.fontSize);
+  if (width <= maxWidth) {
+    return line;
+  }
+
+  const minFontSize = Math.round(line.fontSize * MIN_FONT_RATIO);
+  const fittedSize = Math.floor(line.fontSize * (maxWidth / width));
+  if (fittedSize >= minFontSize) {
+    return { ...line, fontSize: fittedSize };
+  }
+
+  const chars = Array.from(line.text);
+  while (chars.length > 1 && estimateTextWidth(`${chars.join('').trimEnd()}…`, line.fontFamily, minFontSize) > maxWidth) {
+    chars.pop();
+  }
+  return { ...line, text: `${chars.join('').trimEnd()}…`, fontSize: minFontSize, truncated: true };
+}
+
+/**
+ * Fits a greeting line to the available width
+ * With wrapping enabled, a line that is too wide is first split at the space closest to its middle;
+ * both halves then share one font size. Anything still too wide is shrunk (see shrinkLine).
+ */
+function fitLine(line: FittedLine, maxWidth: number, wrap: boolean): FittedLine[] {
+  const width = estimateTextWidth(line.text, line.fontFamily, line.fontSize);
+  if (width <= maxWidth) {
+    return [line];
+  }
+
+  const words = line.text.split(' ');
+  if (wrap && words.length > 1) {
+    // Choose the split whose longer half is shortest
+    let best = { first: '', second: '', longest: Infinity };
+    for (let i = 1; i < words.length; i++) {
+      const first = words.slice(0, i).join(' ');
+      const second = words.slice(i).join(' ');
+      const longest = Math.max(
+        estimateTextWidth(first, line.fontFamily, line.fontSize),
+        estimateTextWidth(second, line.fontFamily, line.fontSize)
+      );
+      if (longest < best.longest) {
+        best = { first, second, longest };
+      }
+    }
+    const halves = [
+      shrinkLine({ ...line, text: best.first }, maxWidth),
+      shrinkLine({ ...line, text: best.second }, maxWidth),
+    ];
+    const fontSize = Math.min(...halves.map((half) => half.fontSize));
+    return halves.map((half) => ({ ...half, fontSize }));
+  }
+
+  return [shrinkLine(line, maxWidth)];
+}
+
+/**
+ * Computes the canvas size, photo slot positions, ribbon and text lines for a collage
+ * Shared by the URL builder and the collage editor so both render the same layout
+ * @param options - Layout and styling options
+ * @param familyName - Family name filled into the greeting
+ * @returns Canvas dimensions, slot rectangles, ribbon and text lines
+ */
+export function getCollageGeometry(options: CollageOptions = {}, familyName = ''): CollageGeometry {
+  // Canvas size comes from the output preset, unless given explicitly
+  // Sizes below are for the 1600x900 reference canvas and are scaled proportionally for other presets
+  const preset = { ...getOutputPreset(options.presetId), ...options.canvasSize };
+  const scale = getPresetScale(preset);
+  const theme = getCollageTheme(options.themeId);
+  const canvasWidth = preset.width;
+  const canvasHeight = preset.height;
+  const margin = Math.round(50 * scale); // Equal margin on all sides
+  const gap = Math.round(40 * scale); // Equal gap between images (both horizontal and vertical)
+
+  // Resolve each greeting line's style: per-line overrides, then the theme font
+  // Fonts fall back automatically when they lack the glyphs for the text (e.g. Korean names in Pacifico)
+  // The message line defaults to a smaller size than the title
+  // Lines wider than the canvas (minus margins) are wrapped and/or shrunk to fit
+  const greeting = options.greeting || DEFAULT_GREETING;
+  const maxTextWidth = canvasWidth - (2 * margin);
+  const lines = getGreetingLines(familyName, greeting).flatMap((line) =>
+    fitLine(
+      {
+        text: line.text,
+        fontFamily: resolveTextLayerFont(line.style.fontFamily || theme.font.family, line.text),
+        fontSize: Math.round(
+          (line.style.fontSize ||
+            (line.role === 'message' ? theme.font.size * MESSAGE_SIZE_RATIO : theme.font.size)) * scale
+        ),
+        color: line.style.color || theme.font.color,
+        truncated: false,
+      },
+      maxTextWidth,
+      !!greeting.wrapLongLines
+    )
+  );
+
+  // Ribbon: 100px tall for a single 70px line, growing to fit larger or extra lines
+  // Its bottom sits ribbonBottomMargin above the bottom of the card
+  const ribbonPadding = Math.round(10 * scale);
+  const ribbonBottomMargin = Math.round(20 * scale);
+  const textBlockHeight = lines.reduce((total, line) => total + line.fontSize * LINE_HEIGHT, 0);
+  const ribbonHeight = Math.max(Math.round(100 * scale), Math.round(textBlockHeight + 2 * ribbonPadding));
+  const ribbon = lines.length > 0
+    ? {
+        x: 0,
+        y: canvasHeight - ribbonBottomMargin - ribbonHeight,
+        width: canvasWidth,
+        height: ribbonHeight,
+      }
+    : null;
+
+  // Stack the lines, centered vertically within the ribbon
+  const textLines: TextLineLayout[] = [];
+  if (ribbon) {
+    let lineTop = ribbon.y + (ribbon.height - textBlockHeight) / 2;
+    lines.forEach((line) => {
+      const lineHeight = line.fontSize * LINE_HEIGHT;
+      textLines.push({ ...line, centerY: Math.round(lineTop + lineHeight / 2) });
+      lineTop += lineHeight;
+    });
+  }
+
+  // Reference canvas: 1600x900, leaving ~120px for text at bottom (usable ~780px)
+  // Photo-only cards use the full height
+  // Equal margins on all sides and equal gaps between images
+  const textSpace = ribbon ? ribbon.height + ribbonBottomMargin : 0; // Space reserved for text at bottom
+  const usableHeight = canvasHeight - textSpace;
+  
+  // Photo area: the canvas minus the margins and the text space
+  const photoArea = {
+    x: margin,
+    y: margin,
+    width: canvasWidth - (2 * margin),
+    height: usableHeight - (2 * margin),
+  };
+
+  const template = getLayoutTemplate(options.layoutId);
+  return {
+    canvasWidth,
+    canvasHeight,
+    scale,
+    photoArea,
+    slots: computeSlotRects(template, photoArea, gap),
+    ribbon,
+    textLines,
+    maxTextWidth,
+  };
+}
+
+/**
+ * Builds the structured Cloudinary transformation for a collage
  * @param cloudName - Cloudinary cloud name
- * @param photos - Array of photo objects with publicId
+ * @param photos - Photos indexed by layout slot; null leaves the slot empty
  * @param familyName - Family name to display in text overlay
- * @returns Complete Cloudinary transformation URL
+ * @param options - Layout and styling options
+ * @returns Structured delivery URL, or null when there is nothing to render
  */
-export function buildCollageUrl(
+export function buildCollageTransformation(
   cloudName: string,
-  photos: Photo[],
-  familyName: string
-): string {
+  photos: Array<CollagePhoto | null>,
+  familyName: string,
+  options: CollageOptions = {}
+): DeliveryUrl | null {
   if (!cloudName) {
-    return '';
+    return null;
   }
-  
-  const baseUrl = `https://res.cloudinary.com/${cloudName}/image/upload`;
 
-  // Base transformation: set canvas size and quality
-  // This creates/resizes the canvas that overlays will be applied to
-  const baseTransform = 'w_1600,h_900,c_fill,q_auto,f_auto';
+  // Photo overlay positions come from the layout template, canvas size from the output preset
+  // Ribbon and text lines come from the greeting
+  const {
+    canvasWidth,
+    canvasHeight,
+    scale,
+    slots: photoPositions,
+    ribbon,
+    textLines,
+    maxTextWidth,
+  } = getCollageGeometry(options, familyName);
 
-  // Require exactly 5 photos
-  if (photos.length !== 5) {
-    // Return empty string if not exactly 5 photos
-    return '';
+  // Require at least one photo placed in the template's slots
+  // Empty slots simply show the background through
+  const photosToUse = photos.slice(0, photoPositions.length);
+  if (!photosToUse.some(Boolean)) {
+    return null;
   }
-  const photosToUse = photos;
 
-  // Photo overlay positions: 5 photos arranged in a 3-column masonry layout
-  // Canvas: 1600x900, leaving ~120px for text at bottom (usable ~780px)
-  // Equal margins on all sides and equal gaps between images
-  
-  const canvasWidth = 1600;
-  const canvasHeight = 900;
-  const textSpace = 120; // Space reserved for text at bottom
-  const usableHeight = canvasHeight - textSpace; // ~780px
-  
-  // Calculate equal margins and gaps
-  // Total width: canvasWidth = 2*margin + 3*columnWidth + 2*gap
-  // Total usable height: usableHeight = 2*margin + row1Height + gap + row2Height
-  // We want equal margin (M) and equal gap (G) for consistency
-  
-  const margin = 50; // Equal margin on all sides
-  const gap = 40; // Equal gap between images (both horizontal and vertical)
-  
-  // Calculate column width based on available space
-  // Available width = canvasWidth - 2*margin - 2*gap (gaps between 3 columns)
-  const availableWidth = canvasWidth - (2 * margin) - (2 * gap);
-  const columnWidth = Math.floor(availableWidth / 3); // Equal width for all columns
-  
-  // Calculate row heights
-  // Row 1 height (2/3) and Row 2 height (1/3) need to fit with gaps
-  // Available height = usableHeight - 2*margin - gap (one gap between rows)
-  const availableHeight = usableHeight - (2 * margin) - gap;
-  const row1Height = Math.floor(availableHeight * 2 / 3); // ~520px for 2/3 proportion
-  const row2Height = availableHeight - row1Height; // Remaining height (ensures exact fit)
-  
-  // Column 1 spans both rows (full height)
-  const col1Height = row1Height + gap + row2Height;
-  
-  // Column 2: top (2/3), bottom (1/3)
-  const col2TopHeight = row1Height;
-  const col2BottomHeight = row2Height;
-  
-  // Column 3: top (1/3), bottom (2/3) - note: reversed proportions
-  const col3TopHeight = row2Height;
-  const col3BottomHeight = row1Height;
-  
-  const photoPositions: Array<{ 
-    gravity: string; 
-    x: number; 
-    y: number; 
-    width: number; 
-    height: number 
-  }> = [
-    // Position 1: Column 1, spans 2 rows (full height)
-    // x = margin, y = margin
-    { 
-      gravity: 'g_north_west', 
-      x: margin, 
-      y: margin, 
-      width: columnWidth, 
-      height: col1Height
-    },
-    // Position 2: Column 2, top (2/3 height)
-    // x = margin + columnWidth + gap, y = margin
-    { 
-      gravity: 'g_north_west', 
-      x: margin + columnWidth + gap, 
-      y: margin, 
-      width: columnWidth, 
-      height: col2TopHeight
-    },
-    // Position 3: Column 2, bottom (1/3 height)
-    // x = margin + columnWidth + gap, y = margin + row1Height + gap
-    { 
-      gravity: 'g_north_west', 
-      x: margin + columnWidth + gap, 
-      y: margin + row1Height + gap, 
-      width: columnWidth, 
-      height: col2BottomHeight
-    },
-    // Position 4: Column 3, top (1/3 height)
-    // x = margin + 2*columnWidth + 2*gap, y = margin
-    { 
-      gravity: 'g_north_west', 
-      x: margin + (columnWidth + gap) * 2, 
-      y: margin, 
-      width: columnWidth, 
-      height: col3TopHeight
-    },
-    // Position 5: Column 3, bottom (2/3 height)
-    // x = margin + 2*columnWidth + 2*gap, y = margin + row2Height + gap
-    { 
-      gravity: 'g_north_west', 
-      x: margin + (columnWidth + gap) * 2, 
-      y: margin + row2Height + gap, 
-      width: columnWidth, 
-      height: col3BottomHeight
+  // Colors, fonts, ribbon and background come from the theme
+  const theme = getCollageTheme(options.themeId);
+
+  // Base transformation: set canvas size and quality
+  // This creates/resizes the canvas that overlays will be applied to
+  const steps: Step[] = [
+    {
+      kind: 'transformation',
+      transformation: { crop: 'fill', width: canvasWidth, height: canvasHeight, quality: 'auto', format: 'auto' },
     },
   ];
 
-  // Build photo overlays with rounded corners and gold border
-  const photoOverlays: string[] = [];
-  const cornerRadius = 25; // Rounded corner radius in pixels
-  const borderWidth = 8; // Gold border width in pixels
-  const goldColor = 'rgb:FFD700'; // Gold color (RGB: 255, 215, 0)
-  
+  // Build photo overlays with rounded corners and a border in the theme color
+  const cornerRadius = Math.round(theme.cornerRadius * scale); // Rounded corner radius in pixels
+  // Border width in pixels; keep at least 1px when the theme has a border at all
+  const borderWidth = theme.borderWidth > 0 ? Math.max(1, Math.round(theme.borderWidth * scale)) : 0;
+
   photosToUse.forEach((photo, index) => {
+    if (!photo) {
+      return;
+    }
     const position = photoPositions[index];
-    // Replace slashes with colons in publicId for overlay syntax
-    const overlayId = photo.publicId.replace(/\//g, ':');
-    
-    // Photo overlay structure: l_<id>/<crop>/<radius,border>/fl_layer_apply,<position>
-    // Component 1: overlay declaration
-    // Component 2: crop and resize  
-    // Component 3: rounded corners and border (same component per docs)
-    // Component 4: apply with positioning (x,y in same component as fl_layer_apply)
-    // Build positioning params first
-    const positionParams = [position.gravity];
-    if (position.x > 0) {
-      positionParams.push(`x_${position.x}`);
+
+    // Photo overlay structure: l_<id>/<orientation>/<crop>/<effects>/<radius,border>/fl_layer_apply,<position>
+    // Layer: public ID (slashes become colons for overlay syntax)
+    // Transformations:
+    //   flips and rotation (a_hflip, a_vflip, a_<degrees>), if any
+    //   crop and resize with the photo's gravity, zoom or manual focal point (see crop.ts)
+    //   filters and color adjustments, one effect per component (see adjustments.ts)
+    //     applied after cropping (less work) and before the border (so the border keeps the theme color)
+    //   rounded corners and border (same component per docs); skipped for themes with neither
+    // Apply: positioning from the top left (x,y in same component as fl_layer_apply)
+    const source = photo.width && photo.height ? { width: photo.width, height: photo.height } : undefined;
+    const transformations: Transformation[] = [
+      ...buildCropTransformations(photo.crop, { width: position.width, height: position.height }, source),
+      ...buildAdjustmentTransformations(photo.adjustments, options.harmonizeColors),
+    ];
+    const style: Transformation = {};
+    if (cornerRadius > 0) {
+      style.radius = cornerRadius;
+    }
+    if (borderWidth > 0) {
+      style.border = { width: borderWidth, color: theme.borderColor };
+    }
+    if (Object.keys(style).length > 0) {
+      transformations.push(style);
     }
-    positionParams.push(`y_${position.y}`);
-    
-    const overlay = `l_${overlayId}/c_fill,w_${position.width},h_${position.height}/r_${cornerRadius},bo_${borderWidth}px_solid_${goldColor}/fl_layer_apply,${positionParams.join(',')}`;
-    
-    photoOverlays.push(overlay);
+
+    steps.push({
+      kind: 'overlay',
+      overlay: {
+        layer: { kind: 'image', publicId: photo.publicId },
+        transformations,
+        apply: { gravity: 'north_west', x: position.x, y: position.y },
+      },
+    });
   });
 
   // Build white ribbon overlay (background for text)
   // Create a white rectangle that spans the full width, positioned at the bottom of the card
-  const ribbonHeight = 100; // Height of the white ribbon (reduced to make it narrower)
-  const ribbonBottomMargin = 20; // Margin from bottom of card (ribbon bottom will be this distance from card bottom)
-  const ribbonOpacity = 70; // Opacity percentage (0-100), 70 = 70% opaque (30% transparent)
-  
-  // Position ribbon so its bottom is just above the bottom of the card
-  // When using g_south, y_0 positions at bottom, y_20 positions 20px from bottom
-  // For ribbon bottom to be at ribbonBottomMargin from bottom, we position from bottom
-  const ribbonYFromBottom = ribbonBottomMargin; // Position from bottom so ribbon bottom is at this distance
-  
-  // White pixel public ID - upload a 1x1 or 10x10 white PNG to your Cloudinary account
-  // Instructions: 
-  // 1. Create a 1x1 white pixel PNG image (or use any small white image)
-  // 2. Upload it to your Cloudinary account
-  // 3. Note the public_id (e.g., "white-pixel" or "holiday-assets/white-pixel")
-  // 4. Update the whitePixelPublicId below to match your uploaded image's public_id
-  const whitePixelPublicId = 'holiday-assets/white-pixel'; // Change this to match your uploaded white pixel public_id
-  
-  // Replace slashes with colons for overlay syntax
-  const whitePixelOverlayId = whitePixelPublicId.replace(/\//g, ':');
-  
-  // Create white ribbon overlay using the white pixel image
-  // Scale it to full width and desired height, add opacity, position below images
-  // o_<percentage> controls opacity (0-100)
-  // Position from bottom using calculated y value
-  const whiteRibbon = `l_${whitePixelOverlayId}/c_fill,w_${canvasWidth},h_${ribbonHeight}/o_${ribbonOpacity}/fl_layer_apply,g_south,y_${ribbonYFromBottom}`;
-  
-  // Build text overlay (placed on top of white ribbon, center-aligned)
-  const currentYear = new Date().getFullYear();
-  // Use a regular hyphen instead of em dash to avoid encoding issues
-  const textContent = `${familyName} - Holiday ${currentYear}`;
-  // URL encode the text
-  const encodedText = encodeURIComponent(textContent);
-  // Text overlay: l_text:<font>:<text>,<color>/fl_layer_apply,<position>
-  // Color must be in same component as text overlay (per docs)
-  // Center text both horizontally and vertically within the ribbon using g_center
-  // Ribbon bottom is at ribbonBottomMargin (20px) from bottom
-  // Ribbon height is ribbonHeight (100px)
-  // Ribbon center from bottom = ribbonBottomMargin + (ribbonHeight / 2) = 20 + 50 = 70px
-  // Ribbon center from top = canvasHeight - ribbonCenterFromBottom = 900 - 70 = 830px
-  // Canvas center y = canvasHeight / 2 = 450px from top
+  // Photo-only cards have no ribbon and no text
+  if (ribbon) {
+    // White pixel public ID - upload a 1x1 or 10x10 white PNG to your Cloudinary account
+    // Instructions: 
+    // 1. Create a 1x1 white pixel PNG image (or use any small white image)
+    // 2. Upload it to your Cloudinary account
+    // 3. Note the public_id (e.g., "white-pixel" or "holiday-assets/white-pixel")
+    // 4. Update ribbon.publicId in the themes (src/lib/themes.ts) to match your uploaded image's public_id
+    //
+    // Scale it to full width and desired height, tint it, add opacity, position below images
+    // co_rgb:<color>,e_colorize:100 fully tints the white pixel (skipped for white ribbons)
+    // o_<percentage> controls opacity (0-100), 70 = 70% opaque (30% transparent)
+    // Position from bottom: with g_south, y_20 puts the ribbon bottom 20px above the card bottom
+    const ribbonStyle: Transformation = theme.ribbon.color.toUpperCase() === 'FFFFFF'
+      ? { opacity: theme.ribbon.opacity }
+      : { color: theme.ribbon.color, effect: { name: 'colorize', value: 100 }, opacity: theme.ribbon.opacity };
+    steps.push({
+      kind: 'overlay',
+      overlay: {
+        layer: { kind: 'image', publicId: theme.ribbon.publicId },
+        transformations: [{ crop: 'fill', width: ribbon.width, height: ribbon.height }, ribbonStyle],
+        apply: { gravity: 'south', y: canvasHeight - (ribbon.y + ribbon.height) },
+      },
+    });
+  }
+
+  // Build text overlays (placed on top of white ribbon, center-aligned), one per greeting line
+  // Text overlay: l_text:<font>_<size>:<text>,<color>/c_limit,w_<max>/fl_layer_apply,<position>
+  // Color must be in same component as text overlay (per docs); the text is escaped by the builder
+  // Center each line horizontally using g_center; getCollageGeometry stacks the lines inside the ribbon
+  // c_limit,w_<max> is a safety net in case the width estimate was too optimistic: it only ever scales down
   // With g_center, y is offset from center: positive moves down, negative moves up
-  // To center at ribbon center: y = ribbonCenterFromTop - canvasCenter = 830 - 450 = 380px
-  const ribbonCenterFromBottom = ribbonBottomMargin + (ribbonHeight / 2);
-  const ribbonCenterFromTop = canvasHeight - ribbonCenterFromBottom;
+  // e.g. a single line on the 1600x900 canvas is centered at 830px from top: y = 830 - 450 = 380px
   const canvasCenter = canvasHeight / 2;
-  const yOffsetFromCenter = ribbonCenterFromTop - canvasCenter;
-  const textOverlay = `l_text:Pacifico_70:${encodedText},co_rgb:000000/fl_layer_apply,g_center,y_${Math.round(yOffsetFromCenter)}`;
-
-  // Background public ID
-  const backgroundId = 'holiday-assets/collage-bg';
+  textLines.forEach((line) => {
+    steps.push({
+      kind: 'overlay',
+      overlay: {
+        layer: { kind: 'text', fontFamily: line.fontFamily, fontSize: line.fontSize, text: line.text },
+        layerParams: { color: line.color },
+        transformations: [{ crop: 'limit', width: maxTextWidth }],
+        apply: { gravity: 'center', y: Math.round(line.centerY - canvasCenter) },
+      },
+    });
+  });
 
-  // Assemble the full URL
   // Cloudinary URL structure: /image/upload/{transformations}/{overlays}/{base_public_id}
-  // Order: base transform, photo overlays, white ribbon, text overlay, background public_id
+  // Order: base transform, photo overlays, white ribbon, text overlays, background public_id
   // The transformations are applied to the background image, then overlays are added on top
   // White ribbon comes before text so it appears behind it
-  const segments = [
-    baseTransform,
-    ...photoOverlays,
-    whiteRibbon,
-    textOverlay,
-    backgroundId,
-  ];
+  return {
+    cloudName,
+    steps,
+    publicId: theme.backgroundId,
+  };
+}
+
+/**
+ * Builds a Cloudinary collage URL from uploaded photos and family name
+ * @param cloudName - Cloudinary cloud name
+ * @param photos - Photos indexed by layout slot; null leaves the slot empty
+ * @param familyName - Family name to display in text overlay
+ * @param options - Layout and styling options
+ * @returns Complete Cloudinary transformation URL
+ */
+export function buildCollageUrl(
+  cloudName: string,
+  photos: Array<CollagePhoto | null>,
+  familyName: string,
+  options: CollageOptions = {}
+): string {
+  const transformation = buildCollageTransformation(cloudName, photos, familyName, options);
+  if (!transformation) {
+    return '';
+  }
 
-  const fullUrl = `${baseUrl}/${segments.join('/')}`;
+  const fullUrl = buildDeliveryUrl(transformation);
   
   // Debug: log the URL structure
   if (typeof window !== 'undefined') {
     console.log('Generated Cloudinary URL:', fullUrl);
-    console.log('Segments:', segments);
+    console.log('Steps:', transformation.steps);
   }
   
   return fullUrl;
 }
 
+/**
+ * Builds a collage URL that always delivers one file format, for Open Graph images and download links
+ * (the default URL lets Cloudinary pick the format per browser, which link previews and saved files don't handle well)
+ * @param cloudName - Cloudinary cloud name
+ * @param photos - Photos indexed by layout slot; null leaves the slot empty
+ * @param familyName - Family name to display in text overlay
+ * @param options - Layout and styling options
+ * @param format - File format
+ * @param download - Serve the image as an attachment, so browsers save it instead of opening it
+ * @returns Complete Cloudinary transformation URL, or '' when there is nothing to render
+ */
+export function buildCollageFileUrl(
+  cloudName: string,
+  photos: Array<CollagePhoto | null>,
+  familyName: string,
+  options: CollageOptions,
+  format: 'jpg' | 'png',
+  download = false
+): string {
+  const transformation = buildCollageTransformation(cloudName, photos, familyName, options);
+  if (!transformation) {
+    return '';
+  }
+  const [base, ...rest] = transformation.steps;
+  const steps: Step[] = [
+    base.kind === 'transformation' ? { kind: 'transformation', transformation: { ...base.transformation, format } } : base,
+    ...rest,
+  ];
+  if (download) {
+    steps.push({ kind: 'transformation', transformation: { flags: ['attachment'] } });
+  }
+  return buildDeliveryUrl({ ...transformation, steps });
+}
@@ -0,0 +1,250 @@
+import { parseAdjustmentTransformations } from './adjustments';
+import { getCollageGeometry, type CollageOptions, type CollagePhoto, type TextLineLayout } from './collage';
+import { parseCropTransformations } from './crop';
+import { DEFAULT_GREETING, MESSAGE_SIZE_RATIO, matchGreetingLine, type Greeting, type TextStyle } from './greeting';
+import { LAYOUT_TEMPLATES, type Rect } from './layouts';
+import { OUTPUT_PRESETS, getPresetScale } from './presets';
+import { resolveTextLayerFont } from './textLayer';
+import { COLLAGE_THEMES, type CollageTheme } from './themes';
+import { parseDeliveryUrl, type Overlay, type TextLayer, type Transformation } from './transformation';
+
+/**
+ * Editor state recovered from a collage URL
+ */
+export type ParsedCollage = {
+  cloudName: string;
+  familyName: string;
+  /** Photos indexed by layout slot; null for empty slots */
+  photos: Array<CollagePhoto | null>;
+  options: Required<Omit<CollageOptions, 'greeting' | 'canvasSize'>> & { greeting: Greeting };
+};
+
+type Size = {
+  width: number;
+  height: number;
+};
+
+type ParsedLine = Pick<TextLineLayout, 'text' | 'fontFamily' | 'fontSize' | 'color'>;
+
+/**
+ * Picks the theme whose background, ribbon and photo border match the URL
+ * The background counts most, so cards still open after a theme's colors were tweaked.
+ */
+function matchTheme(backgroundId: string, ribbon: Overlay | undefined, photoStyle: Transformation | undefined): CollageTheme {
+  const ribbonColor = ribbon?.transformations.find((t) => t.opacity !== undefined)?.color || 'FFFFFF';
+  const scores = COLLAGE_THEMES.map((theme) => {
+    let score = theme.backgroundId === backgroundId ? 4 : 0;
+    if (!ribbon || (ribbon.layer.kind === 'image' && ribbon.layer.publicId === theme.ribbon.publicId)) {
+      score += 1;
+    }
+    if (theme.ribbon.color.toUpperCase() === ribbonColor.toUpperCase()) {
+      score += 1;
+    }
+    if ((photoStyle?.border?.color || '').toUpperCase() === (theme.borderWidth > 0 ? theme.borderColor.toUpperCase() : '')) {
+      score += 1;
+    }
+    return score;
+  });
+  return COLLAGE_THEMES[scores.indexOf(Math.max(...scores))];
+}
+
+/**
+ * Turns the rendered lines of one greeting field back into its text and style
+ * Style fields that match the theme defaults are left unset, so they keep following the theme.
+ */
+function toGreetingField(
+  lines: ParsedLine[],
+  role: 'title' | 'message',
+  theme: CollageTheme,
+  scale: number
+): { text: string; style?: TextStyle } {
+  if (lines.length === 0) {
+    return { text: '' };
+  }
+  const text = lines.map((line) => line.text).join(' ');
+  const { fontFamily, fontSize, color } = lines[0];
+  const defaultSize = Math.round((role === 'message' ? theme.font.size * MESSAGE_SIZE_RATIO : theme.font.size) * scale);
+
+  const style: TextStyle = {};
+  if (fontFamily !== resolveTextLayerFont(theme.font.family, text)) {
+    style.fontFamily = fontFamily;
+  }
+  if (fontSize !== defaultSize) {
+    style.fontSize = Math.round(fontSize / scale);
+  }
+  if (color.toUpperCase() !== theme.font.color.toUpperCase()) {
+    style.color = color;
+  }
+  return { text, style: Object.keys(style).length > 0 ? style : undefined };
+}
+
+/**
+ * Rebuilds the greeting (and family name) from the text lines of a collage
+ * The lines do not say which belong to the title and which to the second line (long lines may have been
+ * wrapped), so every split is tried and kept only if it renders the same lines again.
+ */
+function matchGreeting(
+  lines: ParsedLine[],
+  theme: CollageTheme,
+  presetId: string,
+  scale: number
+): { greeting: Greeting; familyName: string } {
+  if (lines.length === 0) {
+    return { greeting: { ...DEFAULT_GREETING, photoOnly: true }, familyName: '' };
+  }
+
+  const candidates: Array<{ greeting: Greeting; familyName: string }> = [];
+  // Title lines first: one, then two (wrapped), then none (message only)
+  [1, 2, 0].forEach((titleLineCount) => {
+    const messageLineCount = lines.length - titleLineCount;
+    if (messageLineCount < 0 || messageLineCount > 2 || (titleLineCount === 0 && messageLineCount === 0)) {
+      return;
+    }
+    const title = toGreetingField(lines.slice(0, titleLineCount), 'title', theme, scale);
+    const message = toGreetingField(lines.slice(titleLineCount), 'message', theme, scale);
+    const greeting: Greeting = {
+      title: title.text,
+      titleStyle: title.style,
+      message: message.text,
+      messageStyle: message.style,
+      wrapLongLines: titleLineCount === 2 || messageLineCount === 2 || undefined,
+    };
+
+    // A title in the default "{name} — Holiday {year}" form gives back the family name and year
+    let familyName = '';
+    const match = matchGreetingLine(DEFAULT_GREETING.title, title.text);
+    if (match) {
+      familyName = match.familyName;
+      greeting.title = DEFAULT_GREETING.title;
+      // Keep an old year as an override; this year's cards keep following the calendar
+      if (match.year !== undefined && match.year !== new Date().getFullYear()) {
+        greeting.year = match.year;
+      }
+    }
+    candidates.push({ greeting, familyName });
+  });
+
+  const rendersSameLines = ({ greeting, familyName }: { greeting: Greeting; familyName: string }) => {
+    const { textLines } = getCollageGeometry({ presetId, themeId: theme.id, greeting }, familyName);
+    return (
+      textLines.length === lines.length &&
+      textLines.every(
+        (line, index) =>
+          line.text === lines[index].text &&
+          line.fontFamily === lines[index].fontFamily &&
+          line.fontSize === lines[index].fontSize &&
+          line.color.toUpperCase() === lines[index].color.toUpperCase()
+      )
+    );
+  };
+  // Several splits can render the same lines (e.g. a lone small line is a message or a small title):
+  // prefer the one that needs the fewest style overrides
+  const overrideCount = ({ greeting }: { greeting: Greeting }) =>
+    Object.keys(greeting.titleStyle || {}).length + Object.keys(greeting.messageStyle || {}).length;
+  const matching = candidates.filter(rendersSameLines).sort((a, b) => overrideCount(a) - overrideCount(b));
+  return matching[0] || candidates[0];
+}
+
+/**
+ * Size a photo overlay ends up at: the last crop/scale component with both dimensions
+ */
+function getOverlaySize(overlay: Overlay): Size | null {
+  const sized = [...overlay.transformations].reverse().find((t) => t.crop && t.width && t.height);
+  return sized ? { width: sized.width!, height: sized.height! } : null;
+}
+
+function sameRect(a: Rect, b: Rect): boolean {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Parses a collage URL generated by this app back into editor state
+ * Cards made before a theme or layout was changed may no longer match exactly; the closest theme is used,
+ * but photo positions must match a layout template slot for slot.
+ * @param url - Collage URL, e.g. copied from a shared card
+ * @param sourceSizes - Original photo sizes by public ID, needed to restore manual crop focal points
+ * @returns Editor state, or null if the URL was not generated by this app
+ */
+export function parseCollageUrl(url: string, sourceSizes: Record<string, Size> = {}): ParsedCollage | null {
+  const delivery = parseDeliveryUrl(url);
+  if (!delivery || delivery.steps.length === 0) {
+    return null;
+  }
+
+  // Base component: the canvas size identifies the output preset
+  const [base, ...rest] = delivery.steps;
+  if (base.kind !== 'transformation') {
+    return null;
+  }
+  const preset = OUTPUT_PRESETS.find(
+    (candidate) => candidate.width === base.transformation.width && candidate.height === base.transformation.height
+  );
+  if (!preset) {
+    return null;
+  }
+  const scale = getPresetScale(preset);
+
+  // Overlays: photos are placed from the top left, the ribbon from the bottom, text lines from the center
+  const overlays = rest.flatMap((step) => (step.kind === 'overlay' ? [step.overlay] : []));
+  const photoOverlays = overlays.filter((o) => o.layer.kind === 'image' && o.apply.gravity === 'north_west');
+  const ribbon = overlays.find((o) => o.layer.kind === 'image' && o.apply.gravity === 'south');
+  const lines: ParsedLine[] = overlays
+    .filter((o): o is Overlay & { layer: TextLayer } => o.layer.kind === 'text')
+    .map((o) => ({
+      text: o.layer.text,
+      fontFamily: o.layer.fontFamily,
+      fontSize: o.layer.fontSize,
+      color: o.layerParams?.color || '000000',
+    }));
+  if (photoOverlays.length === 0) {
+    return null;
+  }
+
+  const photoStyle = photoOverlays[0].transformations.find((t) => t.radius !== undefined || t.border !== undefined);
+  const theme = matchTheme(delivery.publicId, ribbon, photoStyle);
+  const { greeting, familyName } = matchGreeting(lines, theme, preset.id, scale);
+
+  // Layout: the first template with a slot at every photo's exact position and size
+  const placements = photoOverlays.map((overlay) => {
+    const size = getOverlaySize(overlay);
+    return size ? { overlay, rect: { x: overlay.apply.x ?? 0, y: overlay.apply.y ?? 0, ...size } } : null;
+  });
+  if (placements.some((placement) => !placement)) {
+    return null;
+  }
+  for (const template of LAYOUT_TEMPLATES) {
+    const { slots } = getCollageGeometry({ layoutId: template.id, presetId: preset.id, themeId: theme.id, greeting }, familyName);
+    const slotIndexes = placements.map((placement) => slots.findIndex((slot) => sameRect(slot, placement!.rect)));
+    if (slotIndexes.some((index) => index === -1) || new Set(slotIndexes).size !== slotIndexes.length) {
+      continue;
+    }
+
+    let harmonizeColors = false;
+    const photos: Array<CollagePhoto | null> = slots.map(() => null);
+    placements.forEach((placement, index) => {
+      const { overlay, rect } = placement!;
+      if (overlay.layer.kind !== 'image') {
+        return;
+      }
+      const publicId = overlay.layer.publicId;
+      const source = sourceSizes[publicId];
+      const { adjustments, harmonize } = parseAdjustmentTransformations(overlay.transformations);
+      harmonizeColors = harmonizeColors || harmonize;
+      photos[slotIndexes[index]] = {
+        publicId,
+        width: source?.width,
+        height: source?.height,
+        crop: parseCropTransformations(overlay.transformations, rect, source),
+        adjustments,
+      };
+    });
+
+    return {
+      cloudName: delivery.cloudName,
+      familyName,
+      photos,
+      options: { layoutId: template.id, presetId: preset.id, themeId: theme.id, greeting, harmonizeColors },
+    };
+  }
+  return null;
+}
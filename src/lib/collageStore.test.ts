@@ -0,0 +1,95 @@
+import { randomBytes } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSharedCollage, getSharedCollage, isShortId } from './collageStore';
+import { getLayoutTemplate } from './layouts';
+import type { ProjectState } from './projects';
+
+vi.mock('node:crypto', async (importOriginal) => {
+  const crypto = await importOriginal<typeof import('node:crypto')>();
+  return { ...crypto, randomBytes: vi.fn(crypto.randomBytes) };
+});
+
+const state: ProjectState = {
+  familyName: 'The Smiths',
+  photos: [],
+  layout: Array<null>(getLayoutTemplate('hero-thumbnails').slots.length).fill(null),
+  layoutId: 'hero-thumbnails',
+  presetId: 'print-5x7',
+  themeId: 'winter-silver',
+  greeting: { title: '{name}' },
+  harmonizeColors: false,
+};
+
+let directory: string;
+let storePath: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'collage-store-'));
+  storePath = path.join(directory, 'nested', 'collages.json');
+  vi.stubEnv('COLLAGE_STORE_PATH', storePath);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('createSharedCollage', () => {
+  it('saves a collage under a new short ID that getSharedCollage finds again', async () => {
+    const collage = await createSharedCollage('Smith 2025', state);
+    expect(isShortId(collage.id)).toBe(true);
+    expect(collage).toMatchObject({ name: 'Smith 2025', state });
+    expect(await getSharedCollage(collage.id)).toEqual(collage);
+
+    const file = JSON.parse(await readFile(storePath, 'utf8'));
+    expect(file).toEqual({ version: 1, collages: { [collage.id]: collage } });
+  });
+
+  it('keeps every collage when several are shared at once', async () => {
+    const collages = await Promise.all(['A', 'B', 'C', 'D'].map((name) => createSharedCollage(name, state)));
+    expect(new Set(collages.map((collage) => collage.id)).size).toBe(4);
+    for (const collage of collages) {
+      expect(await getSharedCollage(collage.id)).toEqual(collage);
+    }
+  });
+
+  it('draws bytes again rather than favour the first characters of the alphabet', async () => {
+    const bytes = (values: number[]) => Buffer.from(values) as unknown as ReturnType<typeof randomBytes>;
+    vi.mocked(randomBytes)
+      .mockImplementationOnce(() => bytes([255, 224, 223, 0, 1, 2, 3, 4]))
+      .mockImplementationOnce(() => bytes([5, 6, 7, 8, 9, 10, 11, 12]));
+    const collage = await createSharedCollage('Smith 2025', state);
+    // 223 % 56 = 55, the last character; 224 and 255 are skipped
+    expect(collage.id).toBe('Z2345678');
+  });
+
+  it('rejects when the store file is damaged, without overwriting it', async () => {
+    await createSharedCollage('Smith 2025', state);
+    await writeFile(storePath, '{ not json');
+    await expect(createSharedCollage('Jones 2025', state)).rejects.toThrow();
+    expect(await readFile(storePath, 'utf8')).toBe('{ not json');
+    // Later shares are not blocked by the failed one
+    await writeFile(storePath, JSON.stringify({ version: 1, collages: {} }));
+    await expect(createSharedCollage('Jones 2025', state)).resolves.toMatchObject({ name: 'Jones 2025' });
+  });
+});
+
+describe('getSharedCollage', () => {
+  it('returns null for unknown IDs, IDs of the wrong shape and a missing store', async () => {
+    expect(await getSharedCollage('abcdefgh')).toBeNull();
+    expect(await getSharedCollage('../../etc')).toBeNull();
+    expect(await getSharedCollage('abcdefg0')).toBeNull();
+  });
+});
+
+describe('isShortId', () => {
+  it('accepts 8 characters of the alphabet only', () => {
+    expect(isShortId('Z2345678')).toBe(true);
+    expect(isShortId('Z234567')).toBe(false);
+    expect(isShortId('Z234567O')).toBe(false);
+    expect(isShortId('Z234567l')).toBe(false);
+  });
+});
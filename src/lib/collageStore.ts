@@ -0,0 +1,117 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ProjectState } from './projects';
+import { getServerEnv } from './serverEnv';
+
+/**
+ * Shared collages: card definitions saved on the server under short IDs, for the /c/<id> pages
+ * Kept in one JSON file (COLLAGE_STORE_PATH, data/collages.json by default). Server-only: uses the file system.
+ */
+
+export type SharedCollage = {
+  /** Short ID used in the share link */
+  id: string;
+  name: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** The card as the editor had it; the photo library is left out, only placed photos are shared */
+  state: ProjectState;
+};
+
+type StoreFile = {
+  version: number;
+  collages: Record<string, SharedCollage>;
+};
+
+const STORE_VERSION = 1;
+const DEFAULT_STORE_PATH = 'data/collages.json';
+
+// Letters and digits that can't be mistaken for each other when a link is read aloud or retyped (no 0/O, 1/l/I)
+const ID_ALPHABET = '23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ';
+const ID_LENGTH = 8;
+const ID_PATTERN = new RegExp(`^[${ID_ALPHABET}]{${ID_LENGTH}}$`);
+// 256 is not a multiple of the alphabet size, so bytes from this one up would favour the first characters
+const UNBIASED_BYTE_LIMIT = 256 - (256 % ID_ALPHABET.length);
+
+// Writes are chained so two shares at the same moment can't overwrite each other's changes
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function getStorePath(): string {
+  return path.resolve(getServerEnv('COLLAGE_STORE_PATH') || DEFAULT_STORE_PATH);
+}
+
+function createShortId(): string {
+  let id = '';
+  while (id.length < ID_LENGTH) {
+    for (const byte of randomBytes(ID_LENGTH)) {
+      if (byte < UNBIASED_BYTE_LIMIT && id.length < ID_LENGTH) {
+        id += ID_ALPHABET[byte % ID_ALPHABET.length];
+      }
+    }
+  }
+  return id;
+}
+
+async function readStore(): Promise<StoreFile> {
+  try {
+    const store = JSON.parse(await readFile(getStorePath(), 'utf8')) as StoreFile;
+    return store.collages ? store : { version: STORE_VERSION, collages: {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: STORE_VERSION, collages: {} };
+    }
+    throw error;
+  }
+}
+
+// Writes to a temporary file first, so a crash mid-write never leaves a truncated store
+async function writeStore(store: StoreFile): Promise<void> {
+  const storePath = getStorePath();
+  await mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2));
+  await rename(tempPath, storePath);
+}
+
+/**
+ * Whether a string has the shape of a share ID, checked before touching the store
+ * @param id - Candidate ID from a URL
+ */
+export function isShortId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+/**
+ * Saves a collage under a new short ID
+ * @param name - Card name, shown as the page title
+ * @param state - Editor state to share
+ * @returns The saved collage
+ */
+export function createSharedCollage(name: string, state: ProjectState): Promise<SharedCollage> {
+  const write = pendingWrite.then(async () => {
+    const store = await readStore();
+    let id = createShortId();
+    while (store.collages[id]) {
+      id = createShortId();
+    }
+    const collage: SharedCollage = { id, name, createdAt: new Date().toISOString(), state };
+    await writeStore({ ...store, collages: { ...store.collages, [id]: collage } });
+    return collage;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Looks up a shared collage
+ * @param id - Short ID from the share link
+ * @returns The collage, or null if there is none with that ID
+ */
+export async function getSharedCollage(id: string): Promise<SharedCollage | null> {
+  if (!isShortId(id)) {
+    return null;
+  }
+  const store = await readStore();
+  return store.collages[id] ?? null;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildCropTransformations, DEFAULT_CROP, parseCropTransformations, type PhotoCrop } from './crop';
+import { serializeTransformation } from './transformation';
+
+const slot = { width: 400, height: 300 };
+const source = { width: 4000, height: 3000 };
+
+describe('buildCropTransformations', () => {
+  it('zooms automatic gravity by filling a larger box and cropping the slot out of it', () => {
+    const components = buildCropTransformations({ ...DEFAULT_CROP, gravity: 'faces', zoom: 1.5 }, slot, source);
+    expect(components.map(serializeTransformation)).toEqual(['c_fill,g_faces,w_600,h_450', 'c_crop,g_faces,w_400,h_300']);
+  });
+
+  it('crops an exact window for a manual focal point', () => {
+    const components = buildCropTransformations({ ...DEFAULT_CROP, gravity: 'manual', focalX: 1, focalY: 0, zoom: 2 }, slot, source);
+    expect(components.map(serializeTransformation)).toEqual(['c_crop,w_2000,h_1500,x_2000,y_0', 'c_scale,w_400,h_300']);
+  });
+});
+
+describe('parseCropTransformations', () => {
+  it.each<Partial<PhotoCrop>>([
+    {},
+    { gravity: 'faces', zoom: 2.5 },
+    { gravity: 'auto', zoom: 1.25, rotation: 180, flipVertical: true },
+    { gravity: 'manual', focalX: 0.25, focalY: 0.75, zoom: 1.5, rotation: 90, flipHorizontal: true },
+  ])('reads back the crop built from %o', (settings) => {
+    const crop = { ...DEFAULT_CROP, ...settings };
+    expect(parseCropTransformations(buildCropTransformations(crop, slot, source), slot, source)).toEqual(crop);
+  });
+});
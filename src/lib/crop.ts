@@ -0,0 +1,207 @@
+import type { Transformation } from './transformation';
+
+/**
+ * How a photo is cropped to fill its slot
+ * - auto: Cloudinary picks the most interesting region (g_auto)
+ * - faces: keep detected faces in frame (g_faces)
+ * - manual: the user panned the photo; focalX/focalY position the crop window
+ */
+export type CropGravity = 'auto' | 'faces' | 'manual';
+
+export type PhotoCrop = {
+  gravity: CropGravity;
+  /**
+   * Pan position of the crop window within the rotated/flipped photo, from 0 (left/top) to 1 (right/bottom)
+   * Same meaning as CSS object-position percentages, so the editor preview matches the render.
+   * Only used for manual gravity.
+   */
+  focalX: number;
+  focalY: number;
+  /** 1 fills the slot; larger values zoom in */
+  zoom: number;
+  /** Clockwise rotation in degrees */
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+};
+
+export const DEFAULT_CROP: PhotoCrop = {
+  gravity: 'auto',
+  focalX: 0.5,
+  focalY: 0.5,
+  zoom: 1,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export const MAX_ZOOM = 3;
+
+type Size = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Builds the Cloudinary transformations that orient and crop a photo overlay to its slot
+ * Flips and rotation are applied first, so the crop works on the photo as the user sees it.
+ * @param crop - Crop settings (defaults to DEFAULT_CROP)
+ * @param slot - Slot size in pixels
+ * @param source - Original photo size in pixels, needed for manual focal points
+ * @returns Transformation components, e.g. a_90 then c_fill,g_faces,w_473,h_440
+ */
+export function buildCropTransformations(
+  crop: PhotoCrop = DEFAULT_CROP,
+  slot: Size,
+  source?: Size
+): Transformation[] {
+  const components: Transformation[] = [];
+
+  // Orientation: a_hflip / a_vflip / a_<degrees>
+  if (crop.flipHorizontal) {
+    components.push({ angle: 'hflip' });
+  }
+  if (crop.flipVertical) {
+    components.push({ angle: 'vflip' });
+  }
+  if (crop.rotation) {
+    components.push({ angle: crop.rotation });
+  }
+
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, crop.zoom));
+
+  // Manual focal point: crop an exact window (x_/y_ from the top left) and scale it to the slot
+  // Needs the photo size; without it we fall back to automatic gravity below
+  if (crop.gravity === 'manual' && source) {
+    const isSideways = crop.rotation === 90 || crop.rotation === 270;
+    const orientedWidth = isSideways ? source.height : source.width;
+    const orientedHeight = isSideways ? source.width : source.height;
+
+    // Window that covers the slot at zoom 1, shrunk by the zoom factor
+    const coverScale = Math.max(slot.width / orientedWidth, slot.height / orientedHeight);
+    const cropWidth = Math.min(orientedWidth, Math.round(slot.width / (coverScale * zoom)));
+    const cropHeight = Math.min(orientedHeight, Math.round(slot.height / (coverScale * zoom)));
+    const x = Math.round(clamp01(crop.focalX) * (orientedWidth - cropWidth));
+    const y = Math.round(clamp01(crop.focalY) * (orientedHeight - cropHeight));
+
+    components.push({ crop: 'crop', width: cropWidth, height: cropHeight, x, y });
+    components.push({ crop: 'scale', width: slot.width, height: slot.height });
+    return components;
+  }
+
+  // Automatic gravity: fill the slot; zooming fills a larger box then crops the slot out of it
+  // Not z_: Cloudinary ignores it with c_fill, and with c_thumb/c_auto it zooms relative to the detected faces or
+  // subject, so the same value would frame differently per photo. A larger fill keeps zoom relative to the filled
+  // slot, as in the editor preview and the canvas renderer, and parseCropTransformations reads it back from the width.
+  const gravity = crop.gravity === 'faces' ? 'faces' : 'auto';
+  if (zoom > 1) {
+    components.push({
+      crop: 'fill',
+      gravity,
+      width: Math.round(slot.width * zoom),
+      height: Math.round(slot.height * zoom),
+    });
+    components.push({ crop: 'crop', gravity, width: slot.width, height: slot.height });
+  } else {
+    components.push({ crop: 'fill', gravity, width: slot.width, height: slot.height });
+  }
+  return components;
+}
+
+/**
+ * Reads crop settings back from the transformations built by buildCropTransformations
+ * @param transformations - Photo overlay transformations; components that are not orientation or crop are ignored
+ * @param slot - Slot size in pixels
+ * @param source - Original photo size in pixels; without it a manual crop comes back centered at zoom 1
+ * @returns Crop settings
+ */
+export function parseCropTransformations(
+  transformations: Transformation[],
+  slot: Size,
+  source?: Size
+): PhotoCrop {
+  const crop: PhotoCrop = { ...DEFAULT_CROP };
+
+  transformations.forEach((transformation) => {
+    if (transformation.angle === 'hflip') {
+      crop.flipHorizontal = true;
+    } else if (transformation.angle === 'vflip') {
+      crop.flipVertical = true;
+    } else if (transformation.angle === 90 || transformation.angle === 180 || transformation.angle === 270) {
+      crop.rotation = transformation.angle;
+    }
+  });
+
+  // Manual focal point: an exact c_crop window with x_/y_
+  const window = transformations.find((t) => t.crop === 'crop' && t.x !== undefined && t.y !== undefined);
+  if (window && window.width && window.height) {
+    crop.gravity = 'manual';
+    if (source) {
+      const isSideways = crop.rotation === 90 || crop.rotation === 270;
+      const orientedWidth = isSideways ? source.height : source.width;
+      const orientedHeight = isSideways ? source.width : source.height;
+      const coverScale = Math.max(slot.width / orientedWidth, slot.height / orientedHeight);
+      crop.zoom = clampZoom(slot.width / (coverScale * window.width));
+      crop.focalX = orientedWidth > window.width ? round(window.x! / (orientedWidth - window.width), 3) : 0.5;
+      crop.focalY = orientedHeight > window.height ? round(window.y! / (orientedHeight - window.height), 3) : 0.5;
+    }
+    return crop;
+  }
+
+  // Automatic gravity: a larger fill box means the photo was zoomed in
+  const fill = transformations.find((t) => t.crop === 'fill');
+  if (fill) {
+    crop.gravity = fill.gravity === 'faces' ? 'faces' : 'auto';
+    if (fill.width) {
+      crop.zoom = clampZoom(fill.width / slot.width);
+    }
+  }
+  return crop;
+}
+
+/**
+ * Maps the focal point (given on the rotated/flipped photo) back onto the original photo
+ * The editor uses this for CSS object-position, which applies before the CSS rotation.
+ * @param crop - Crop settings
+ * @returns Focal point on the unrotated, unflipped photo (0-1 on each axis)
+ */
+export function getSourceFocalPoint(crop: PhotoCrop): { x: number; y: number } {
+  const u = clamp01(crop.focalX);
+  const v = clamp01(crop.focalY);
+
+  // Undo the rotation (clockwise): oriented (u, v) -> flipped (x, y)
+  let x: number;
+  let y: number;
+  switch (crop.rotation) {
+    case 90:
+      [x, y] = [v, 1 - u];
+      break;
+    case 180:
+      [x, y] = [1 - u, 1 - v];
+      break;
+    case 270:
+      [x, y] = [1 - v, u];
+      break;
+    default:
+      [x, y] = [u, v];
+  }
+
+  // Undo the flips
+  return {
+    x: crop.flipHorizontal ? 1 - x : x,
+    y: crop.flipVertical ? 1 - y : y,
+  };
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(1, round(zoom, 2)));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { extractExifSegment, insertExifSegment, parseExifDate, readExifMetadata } from './exif';
+
+type JpegOptions = {
+  littleEndian?: boolean;
+  orientation?: number;
+  gps?: boolean;
+  takenAt?: string;
+  /** Put a JFIF APP0 segment before the EXIF one, as many cameras do */
+  jfif?: boolean;
+};
+
+// Smallest JPEG header with an EXIF segment: SOI, [APP0], APP1 with a TIFF header, IFD0 and the Exif IFD, then SOS
+function buildJpeg({ littleEndian = false, orientation, gps = false, takenAt, jfif = false }: JpegOptions = {}): Uint8Array<ArrayBuffer> {
+  const ifd0Tags: Array<[tag: number, type: number, value: number]> = [];
+  if (orientation !== undefined) ifd0Tags.push([0x0112, 3, orientation]);
+  if (takenAt !== undefined) ifd0Tags.push([0x8769, 4, 0]); // Offset filled in below
+  if (gps) ifd0Tags.push([0x8825, 4, 0]);
+
+  const ifd0Size = 2 + ifd0Tags.length * 12 + 4;
+  const exifIfdOffset = 8 + ifd0Size;
+  const dateOffset = exifIfdOffset + 2 + 12 + 4;
+  const tiffSize = takenAt !== undefined ? dateOffset + 20 : exifIfdOffset;
+
+  const tiff = new DataView(new ArrayBuffer(tiffSize));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, ifd0Tags.length, littleEndian);
+  ifd0Tags.forEach(([tag, type, value], index) => {
+    const entry = 10 + index * 12;
+    tiff.setUint16(entry, tag, littleEndian);
+    tiff.setUint16(entry + 2, type, littleEndian);
+    tiff.setUint32(entry + 4, 1, littleEndian);
+    if (tag === 0x8769) {
+      tiff.setUint32(entry + 8, exifIfdOffset, littleEndian);
+    } else if (type === 3) {
+      tiff.setUint16(entry + 8, value, littleEndian);
+    }
+  });
+  if (takenAt !== undefined) {
+    tiff.setUint16(exifIfdOffset, 1, littleEndian);
+    tiff.setUint16(exifIfdOffset + 2, 0x9003, littleEndian);
+    tiff.setUint16(exifIfdOffset + 4, 2, littleEndian);
+    tiff.setUint32(exifIfdOffset + 6, 20, littleEndian);
+    tiff.setUint32(exifIfdOffset + 10, dateOffset, littleEndian);
+    [...takenAt].forEach((char, index) => tiff.setUint8(dateOffset + index, char.charCodeAt(0)));
+  }
+
+  const app1Length = 2 + 6 + tiffSize;
+  const bytes = [
+    0xff, 0xd8,
+    ...(jfif ? [0xff, 0xe0, 0x00, 0x07, 0x4a, 0x46, 0x49, 0x46, 0x00] : []),
+    0xff, 0xe1, app1Length >> 8, app1Length & 0xff,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+    ...new Uint8Array(tiff.buffer),
+    0xff, 0xda, 0x00, 0x02,
+  ];
+  return new Uint8Array(bytes);
+}
+
+function toBlob(bytes: Uint8Array<ArrayBuffer>): Blob {
+  return new Blob([bytes], { type: 'image/jpeg' });
+}
+
+describe('parseExifDate', () => {
+  it('converts EXIF dates to ISO timestamps', () => {
+    expect(parseExifDate('2024:12:24 18:03:11')).toBe('2024-12-24T18:03:11');
+  });
+
+  it('ignores blank and malformed dates', () => {
+    expect(parseExifDate('0000:00:00 00:00:00')).toBeUndefined();
+    expect(parseExifDate('24.12.2024')).toBeUndefined();
+    expect(parseExifDate(undefined)).toBeUndefined();
+  });
+});
+
+describe('readExifMetadata', () => {
+  it.each([false, true])('reads orientation, GPS and the capture date (little-endian: %s)', async (littleEndian) => {
+    const file = toBlob(buildJpeg({ littleEndian, orientation: 6, gps: true, takenAt: '2024:12:24 18:03:11' }));
+    expect(await readExifMetadata(file)).toEqual({ orientation: 6, hasGps: true, takenAt: '2024-12-24T18:03:11' });
+  });
+
+  it('finds the EXIF segment after a JFIF segment', async () => {
+    const file = toBlob(buildJpeg({ jfif: true, orientation: 3 }));
+    expect(await readExifMetadata(file)).toEqual({ orientation: 3, hasGps: false });
+  });
+
+  it('ignores orientations outside 1-8', async () => {
+    expect(await readExifMetadata(toBlob(buildJpeg({ orientation: 9 })))).toEqual({ hasGps: false });
+  });
+
+  it('returns empty metadata for files without EXIF data', async () => {
+    expect(await readExifMetadata(toBlob(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02])))).toEqual({});
+    expect(await readExifMetadata(new Blob(['\x89PNG\r\n'], { type: 'image/png' }))).toEqual({});
+  });
+
+  it('reads what it can from a truncated file without throwing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const jpeg = buildJpeg({ orientation: 6, gps: true, takenAt: '2024:12:24 18:03:11' });
+    // Cut inside the Exif IFD: IFD0 is whole, the date is gone
+    expect(await readExifMetadata(toBlob(jpeg.slice(0, 60)))).toEqual({ orientation: 6, hasGps: true });
+    // Cut inside the TIFF header
+    expect(await readExifMetadata(toBlob(jpeg.slice(0, 16)))).toEqual({});
+    vi.restoreAllMocks();
+  });
+});
+
+describe('extractExifSegment', () => {
+  it.each([false, true])('copies the segment with the orientation reset to 1 (little-endian: %s)', async (littleEndian) => {
+    const original = toBlob(buildJpeg({ littleEndian, orientation: 6, gps: true, takenAt: '2024:12:24 18:03:11' }));
+    const segment = await extractExifSegment(original);
+    expect(segment).not.toBeNull();
+
+    const reencoded = toBlob(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]));
+    const copy = insertExifSegment(reencoded, segment!);
+    expect(await readExifMetadata(copy)).toEqual({ orientation: 1, hasGps: true, takenAt: '2024-12-24T18:03:11' });
+    // The original is left as it was
+    expect(await readExifMetadata(original)).toMatchObject({ orientation: 6 });
+  });
+
+  it('returns null for files without EXIF data or with a truncated segment', async () => {
+    expect(await extractExifSegment(toBlob(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02])))).toBeNull();
+    expect(await extractExifSegment(toBlob(buildJpeg({ orientation: 6 }).slice(0, 20)))).toBeNull();
+  });
+});
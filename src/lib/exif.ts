@@ -0,0 +1,187 @@
+/**
+ * Minimal EXIF reader for JPEG photos
+ * Reads only the tags the app uses, straight from the file bytes (no decoding of the image itself),
+ * and can carry the EXIF segment over to a re-encoded copy.
+ */
+
+export type ExifMetadata = {
+  /** When the photo was taken (DateTimeOriginal), as an ISO timestamp in the camera's local time */
+  takenAt?: string;
+  /** EXIF orientation, 1-8; 1 (or missing) means the pixels are stored upright */
+  orientation?: number;
+  /** Whether the photo carries GPS location data */
+  hasGps?: boolean;
+};
+
+// Tags, by IFD
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF lives in the APP1 segment near the start of the file; 128KB covers it even with large thumbnails
+const EXIF_SEARCH_BYTES = 128 * 1024;
+
+/**
+ * Converts an EXIF date ("2024:12:24 18:03:11") to an ISO timestamp
+ * @param value - EXIF date string
+ * @returns ISO timestamp without a time zone, or undefined if the value is not a valid date
+ */
+export function parseExifDate(value: string | undefined): string | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value?.trim() || '');
+  if (!match || match[1] === '0000') {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+}
+
+/**
+ * Finds the APP1 "Exif" segment of a JPEG
+ * @returns Offset of the segment's marker, or -1 if the file has no EXIF data
+ */
+function findExifSegment(view: DataView): number {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return -1; // Not a JPEG
+  }
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset;
+    }
+    // Image data starts at SOS; EXIF always comes before it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      return -1;
+    }
+    offset += 2 + length;
+  }
+  return -1;
+}
+
+// The TIFF header follows the marker, length and "Exif\0\0"
+function findTiffHeader(view: DataView): number {
+  const segment = findExifSegment(view);
+  return segment === -1 ? -1 : segment + 10;
+}
+
+/**
+ * Reads the entries of one IFD as tag -> value offset (relative to the TIFF header)
+ */
+function readIfd(view: DataView, tiff: number, ifdOffset: number, littleEndian: boolean): Map<number, number> {
+  const entries = new Map<number, number>();
+  const start = tiff + ifdOffset;
+  if (start + 2 > view.byteLength) {
+    return entries;
+  }
+  const count = view.getUint16(start, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      break;
+    }
+    entries.set(view.getUint16(entry, littleEndian), entry + 8 - tiff);
+  }
+  return entries;
+}
+
+function readAscii(view: DataView, start: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && start + i < view.byteLength; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Reads EXIF metadata from a photo
+ * Files that are not JPEGs, or have no EXIF data, resolve to empty metadata.
+ * @param file - Photo file
+ * @returns Metadata found in the file
+ */
+export async function readExifMetadata(file: Blob): Promise<ExifMetadata> {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+    const tiff = findTiffHeader(view);
+    if (tiff === -1) {
+      return {};
+    }
+    const littleEndian = view.getUint16(tiff) === 0x4949; // "II" (Intel) vs "MM" (Motorola)
+    const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, littleEndian), littleEndian);
+
+    const metadata: ExifMetadata = {};
+    const orientationValue = ifd0.get(TAG_ORIENTATION);
+    if (orientationValue !== undefined) {
+      // SHORT, stored inline in the value field
+      const orientation = view.getUint16(tiff + orientationValue, littleEndian);
+      if (orientation >= 1 && orientation <= 8) {
+        metadata.orientation = orientation;
+      }
+    }
+    metadata.hasGps = ifd0.has(TAG_GPS_IFD);
+
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer !== undefined) {
+      const exifIfd = readIfd(view, tiff, view.getUint32(tiff + exifPointer, littleEndian), littleEndian);
+      const dateValue = exifIfd.get(TAG_DATE_TIME_ORIGINAL);
+      if (dateValue !== undefined) {
+        // ASCII, 20 bytes: too long to sit inline, so the value field holds an offset
+        const dateOffset = view.getUint32(tiff + dateValue, littleEndian);
+        metadata.takenAt = parseExifDate(readAscii(view, tiff + dateOffset, 20));
+      }
+    }
+    return metadata;
+  } catch (error) {
+    console.warn('Could not read EXIF metadata:', error);
+    return {};
+  }
+}
+
+/**
+ * Copies the EXIF segment of a JPEG, with the orientation reset to upright
+ * Used to keep the metadata of a photo that was rotated and re-encoded (re-encoding drops it).
+ * @param file - Original JPEG
+ * @returns The APP1 segment (marker included), or null if the file has no EXIF data
+ */
+export async function extractExifSegment(file: Blob): Promise<ArrayBuffer | null> {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+    const start = findExifSegment(view);
+    if (start === -1) {
+      return null;
+    }
+    const end = start + 2 + view.getUint16(start + 2);
+    if (end > view.byteLength) {
+      return null; // Truncated segment
+    }
+    const segment = view.buffer.slice(start, end);
+
+    // The pixels are now stored upright, so the orientation tag must not rotate them again
+    const segmentView = new DataView(segment);
+    const tiff = 10;
+    const littleEndian = segmentView.getUint16(tiff) === 0x4949;
+    const ifd0 = readIfd(segmentView, tiff, segmentView.getUint32(tiff + 4, littleEndian), littleEndian);
+    const orientationValue = ifd0.get(TAG_ORIENTATION);
+    if (orientationValue !== undefined) {
+      segmentView.setUint16(tiff + orientationValue, 1, littleEndian);
+    }
+    return segment;
+  } catch (error) {
+    console.warn('Could not copy EXIF metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Inserts an EXIF segment into a JPEG, right after the start-of-image marker
+ * @param jpeg - JPEG without EXIF data (e.g. fresh from a canvas)
+ * @param segment - APP1 segment from extractExifSegment
+ * @returns JPEG with the segment
+ */
+export function insertExifSegment(jpeg: Blob, segment: ArrayBuffer): Blob {
+  return new Blob([jpeg.slice(0, 2), segment, jpeg.slice(2)], { type: jpeg.type });
+}
@@ -0,0 +1,117 @@
+/**
+ * Per-line text style; unset fields fall back to the theme font
+ * Sizes are in pixels on the 1600x900 reference canvas.
+ */
+export type TextStyle = {
+  fontFamily?: string;
+  fontSize?: number;
+  /** 6-digit hex color without '#' */
+  color?: string;
+};
+
+/**
+ * Greeting printed on the ribbon at the bottom of the card
+ * `title` and `message` may use the placeholders {name} (the family name) and {year}.
+ */
+export type Greeting = {
+  title: string;
+  titleStyle?: TextStyle;
+  /** Optional second line, e.g. "Love, Anna, Ben & Max"; empty hides it */
+  message?: string;
+  messageStyle?: TextStyle;
+  /** Year override, e.g. next year for cards made in December; defaults to the current year */
+  year?: number;
+  /** Photo-only print: no ribbon and no text */
+  photoOnly?: boolean;
+  /** Wrap lines that are too long for the ribbon onto two lines before shrinking them */
+  wrapLongLines?: boolean;
+};
+
+export const DEFAULT_GREETING: Greeting = {
+  // Text layers are fully escaped (see textLayer.ts), so the em dash is safe to use
+  title: '{name} — Holiday {year}',
+  message: '',
+};
+
+// Fonts offered in the editor; all are available to Cloudinary text layers
+export const GREETING_FONTS = ['Pacifico', 'Lobster', 'Montserrat', 'Merriweather', 'Arial'];
+
+// Second line defaults to a smaller size than the title
+export const MESSAGE_SIZE_RATIO = 0.6;
+
+/**
+ * Fills in the {name} and {year} placeholders of a greeting line
+ * @param template - Line text with optional placeholders
+ * @param familyName - Family name
+ * @param year - Year to print
+ * @returns Line text ready to render
+ */
+export function formatGreetingLine(template: string, familyName: string, year: number): string {
+  return template.replace(/\{name\}/g, familyName).replace(/\{year\}/g, String(year));
+}
+
+/**
+ * Reverses formatGreetingLine: checks whether a rendered line came from a template
+ * @param template - Line text with placeholders, e.g. DEFAULT_GREETING.title
+ * @param text - Rendered line, e.g. "The Smiths — Holiday 2024"
+ * @returns The family name and year filled into the template, or null if the line does not match it
+ */
+export function matchGreetingLine(template: string, text: string): { familyName: string; year?: number } | null {
+  let hasName = false;
+  let hasYear = false;
+  const pattern = template
+    .split(/(\{name\}|\{year\})/)
+    .map((part) => {
+      if (part === '{name}') {
+        const group = hasName ? '\\k<name>' : '(?<name>.+?)';
+        hasName = true;
+        return group;
+      }
+      if (part === '{year}') {
+        const group = hasYear ? '\\k<year>' : '(?<year>\\d{4})';
+        hasYear = true;
+        return group;
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`, 'u').exec(text);
+  if (!match) {
+    return null;
+  }
+  return {
+    familyName: match.groups?.name ?? '',
+    year: match.groups?.year ? Number(match.groups.year) : undefined,
+  };
+}
+
+/**
+ * Resolves the text lines of a greeting
+ * @param familyName - Family name
+ * @param greeting - Greeting fields
+ * @returns Title and (if set) message line, or nothing for photo-only cards
+ */
+export function getGreetingLines(
+  familyName: string,
+  greeting: Greeting = DEFAULT_GREETING
+): Array<{ text: string; style: TextStyle; role: 'title' | 'message' }> {
+  if (greeting.photoOnly) {
+    return [];
+  }
+
+  const year = greeting.year ?? new Date().getFullYear();
+  const lines: Array<{ text: string; style: TextStyle; role: 'title' | 'message' }> = [];
+
+  const title = formatGreetingLine(greeting.title, familyName, year).trim();
+  if (title) {
+    lines.push({ text: title, style: greeting.titleStyle || {}, role: 'title' });
+  }
+
+  const message = formatGreetingLine(greeting.message || '', familyName, year).trim();
+  if (message) {
+    lines.push({ text: message, style: greeting.messageStyle || {}, role: 'message' });
+  }
+
+  return lines;
+}
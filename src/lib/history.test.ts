@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, MAX_HISTORY, recordHistory, redoHistory, undoHistory } from './history';
+
+// Records each snapshot in turn
+function recordAll(first: number, next: number[], limit?: number) {
+  return next.reduce((history, snapshot) => recordHistory(history, snapshot, limit), createHistory(first));
+}
+
+describe('history', () => {
+  it('undoes and redoes snapshots in order', () => {
+    let history = recordAll(0, [1, 2, 3]);
+    history = undoHistory(undoHistory(history));
+    expect(history).toEqual({ past: [0], present: 1, future: [2, 3] });
+    history = redoHistory(history);
+    expect(history).toEqual({ past: [0, 1], present: 2, future: [3] });
+  });
+
+  it('drops the redo steps when a new snapshot is recorded', () => {
+    const history = recordHistory(undoHistory(undoHistory(recordAll(0, [1, 2, 3]))), 9);
+    expect(history).toEqual({ past: [0, 1], present: 9, future: [] });
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it('returns the same history when there is nothing to undo or redo', () => {
+    const history = createHistory('start');
+    expect(undoHistory(history)).toBe(history);
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it('keeps at most `limit` undo steps, dropping the oldest', () => {
+    const history = recordAll(0, [1, 2, 3, 4, 5], 3);
+    expect(history.past).toEqual([2, 3, 4]);
+    expect(undoHistory(undoHistory(undoHistory(undoHistory(history)))).present).toBe(2);
+  });
+
+  it(`keeps ${MAX_HISTORY} undo steps by default`, () => {
+    const history = recordAll(0, Array.from({ length: MAX_HISTORY + 10 }, (_, index) => index + 1));
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0]).toBe(10);
+    expect(history.present).toBe(MAX_HISTORY + 10);
+  });
+
+  it('lets everything undone be redone, even past the limit', () => {
+    let history = recordAll(0, [1, 2, 3], 2);
+    history = undoHistory(undoHistory(history));
+    expect(history).toEqual({ past: [], present: 1, future: [2, 3] });
+    history = redoHistory(redoHistory(history));
+    expect(history).toEqual({ past: [1, 2], present: 3, future: [] });
+  });
+});
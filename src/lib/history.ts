@@ -0,0 +1,70 @@
+/**
+ * Undo/redo history of editor snapshots
+ * Each entry is a complete snapshot, so undoing never has to know which operation produced a change.
+ */
+export type History<T> = {
+  /** Older snapshots, oldest first */
+  past: T[];
+  present: T;
+  /** Undone snapshots, next redo first */
+  future: T[];
+};
+
+// Oldest snapshots are dropped beyond this many undo steps
+export const MAX_HISTORY = 50;
+
+/**
+ * Starts a history with no undo or redo steps
+ * @param present - Current snapshot
+ * @returns New history
+ */
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [] };
+}
+
+/**
+ * Records a new snapshot; anything that was undone can no longer be redone
+ * @param history - Current history
+ * @param next - New snapshot
+ * @param limit - Maximum number of undo steps to keep
+ * @returns Updated history
+ */
+export function recordHistory<T>(history: History<T>, next: T, limit = MAX_HISTORY): History<T> {
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: next,
+    future: [],
+  };
+}
+
+/**
+ * Steps back one snapshot
+ * @param history - Current history
+ * @returns Updated history, or the same history if there is nothing to undo
+ */
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+/**
+ * Steps forward one snapshot
+ * @param history - Current history
+ * @returns Updated history, or the same history if there is nothing to redo
+ */
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
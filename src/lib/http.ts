@@ -0,0 +1,15 @@
+/**
+ * Helpers for the server API routes
+ */
+
+/**
+ * JSON response
+ * @param body - Value to serialize
+ * @param status - HTTP status
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
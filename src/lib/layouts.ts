@@ -0,0 +1,139 @@
+/**
+ * A single photo slot in a layout template.
+ * Slots are placed on a uniform grid of `columns` x `rows` cells (zero-based),
+ * so the same definition can drive both the Cloudinary pixel math and the
+ * CSS grid used by the collage editor.
+ */
+export type LayoutSlot = {
+  column: number;
+  row: number;
+  columnSpan?: number;
+  rowSpan?: number;
+};
+
+export type LayoutTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  columns: number;
+  rows: number;
+  slots: LayoutSlot[];
+};
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Creates a plain grid template where every cell holds one photo (row by row)
+ */
+function grid(id: string, name: string, columns: number, rows: number): LayoutTemplate {
+  const slots: LayoutSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({ column, row });
+    }
+  }
+  return {
+    id,
+    name,
+    description: `${columns} x ${rows} grid`,
+    columns,
+    rows,
+    slots,
+  };
+}
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  grid('grid-1', 'Single photo', 1, 1),
+  grid('grid-2', '2 photos', 2, 1),
+  grid('grid-3', '3 photos', 3, 1),
+  grid('grid-4', '4 photos', 2, 2),
+  {
+    // The original 3-column masonry layout
+    // Column 1 spans all rows | Column 2: top 2/3, bottom 1/3 | Column 3: top 1/3, bottom 2/3
+    id: 'masonry-5',
+    name: '5 photos (masonry)',
+    description: 'Tall left photo with staggered columns',
+    columns: 3,
+    rows: 3,
+    slots: [
+      { column: 0, row: 0, rowSpan: 3 },
+      { column: 1, row: 0, rowSpan: 2 },
+      { column: 1, row: 2 },
+      { column: 2, row: 0 },
+      { column: 2, row: 1, rowSpan: 2 },
+    ],
+  },
+  grid('grid-6', '6 photos', 3, 2),
+  grid('grid-9', '9 photos', 3, 3),
+  grid('grid-12', '12 photos', 4, 3),
+  {
+    id: 'hero-thumbnails',
+    name: 'Hero + thumbnails',
+    description: 'One large photo with 3 thumbnails on the right',
+    columns: 4,
+    rows: 3,
+    slots: [
+      { column: 0, row: 0, columnSpan: 3, rowSpan: 3 },
+      { column: 3, row: 0 },
+      { column: 3, row: 1 },
+      { column: 3, row: 2 },
+    ],
+  },
+  {
+    id: 'filmstrip',
+    name: 'Filmstrip',
+    description: '5 photos side by side',
+    columns: 5,
+    rows: 1,
+    slots: [0, 1, 2, 3, 4].map((column) => ({ column, row: 0 })),
+  },
+];
+
+export const DEFAULT_LAYOUT_ID = 'masonry-5';
+
+/**
+ * Largest number of slots offered by any template
+ */
+export const MAX_LAYOUT_SLOTS = Math.max(...LAYOUT_TEMPLATES.map((template) => template.slots.length));
+
+/**
+ * Looks up a layout template by id, falling back to the default layout
+ * @param id - Template id
+ * @returns Matching template, or the default template if the id is unknown
+ */
+export function getLayoutTemplate(id: string | undefined): LayoutTemplate {
+  return (
+    LAYOUT_TEMPLATES.find((template) => template.id === id) ||
+    LAYOUT_TEMPLATES.find((template) => template.id === DEFAULT_LAYOUT_ID)!
+  );
+}
+
+/**
+ * Computes the pixel rectangle of every slot in a template
+ * @param template - Layout template
+ * @param area - Area of the canvas the photos are laid out in
+ * @param gap - Gap between neighbouring cells (both horizontal and vertical)
+ * @returns One rectangle per slot, in slot order
+ */
+export function computeSlotRects(template: LayoutTemplate, area: Rect, gap: number): Rect[] {
+  // Total width: area.width = columns*cellWidth + (columns-1)*gap
+  // Total height: area.height = rows*cellHeight + (rows-1)*gap
+  const cellWidth = (area.width - (template.columns - 1) * gap) / template.columns;
+  const cellHeight = (area.height - (template.rows - 1) * gap) / template.rows;
+
+  return template.slots.map((slot) => {
+    const columnSpan = slot.columnSpan || 1;
+    const rowSpan = slot.rowSpan || 1;
+    return {
+      x: Math.round(area.x + slot.column * (cellWidth + gap)),
+      y: Math.round(area.y + slot.row * (cellHeight + gap)),
+      width: Math.floor(columnSpan * cellWidth + (columnSpan - 1) * gap),
+      height: Math.floor(rowSpan * cellHeight + (rowSpan - 1) * gap),
+    };
+  });
+}
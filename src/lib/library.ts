@@ -0,0 +1,74 @@
+/**
+ * Sorting and search for the photo library
+ */
+
+export type LibraryPhoto = {
+  publicId: string;
+  /** Original file name, e.g. "IMG_2041.jpg" */
+  fileName?: string;
+  /** ISO timestamp of the upload */
+  uploadedAt?: string;
+  /** ISO timestamp from the photo's EXIF data, if it had any */
+  takenAt?: string;
+};
+
+export type LibrarySort = 'uploaded-newest' | 'uploaded-oldest' | 'taken-newest' | 'taken-oldest' | 'name';
+
+export const LIBRARY_SORTS: Array<{ value: LibrarySort; label: string }> = [
+  { value: 'uploaded-newest', label: 'Newest upload' },
+  { value: 'uploaded-oldest', label: 'Oldest upload' },
+  { value: 'taken-newest', label: 'Newest photo (date taken)' },
+  { value: 'taken-oldest', label: 'Oldest photo (date taken)' },
+  { value: 'name', label: 'File name' },
+];
+
+export const DEFAULT_LIBRARY_SORT: LibrarySort = 'uploaded-newest';
+
+/**
+ * Name shown and searched for a photo: the original file name, or the last part of the public ID
+ * @param photo - Library photo
+ */
+export function getPhotoDisplayName(photo: LibraryPhoto): string {
+  return photo.fileName || photo.publicId.split('/').pop() || photo.publicId;
+}
+
+/**
+ * Filters the library by file name and sorts it
+ * Photos without a date taken sort by upload time instead.
+ * @param photos - Library photos, in upload order
+ * @param query - Case-insensitive file name search; empty shows everything
+ * @param sort - Sort order
+ * @returns Matching photos, sorted
+ */
+export function filterAndSortLibrary<T extends LibraryPhoto>(photos: T[], query: string, sort: LibrarySort): T[] {
+  const needle = query.trim().toLowerCase();
+  const indexed = photos
+    .map((photo, index) => ({ photo, index }))
+    .filter(({ photo }) => !needle || getPhotoDisplayName(photo).toLowerCase().includes(needle));
+
+  // Photos without an upload time (e.g. reopened from a collage URL) count as the oldest;
+  // library order (photos are appended as they finish uploading) breaks ties
+  type Entry = { photo: T; index: number };
+  const uploaded = (entry: Entry) => entry.photo.uploadedAt || '';
+  const taken = (entry: Entry) => entry.photo.takenAt || uploaded(entry);
+
+  const compare = (a: Entry, b: Entry): number => {
+    switch (sort) {
+      case 'uploaded-newest':
+        return uploaded(b).localeCompare(uploaded(a)) || b.index - a.index;
+      case 'uploaded-oldest':
+        return uploaded(a).localeCompare(uploaded(b)) || a.index - b.index;
+      case 'taken-newest':
+        return taken(b).localeCompare(taken(a)) || b.index - a.index;
+      case 'taken-oldest':
+        return taken(a).localeCompare(taken(b)) || a.index - b.index;
+      case 'name':
+        return (
+          getPhotoDisplayName(a.photo).localeCompare(getPhotoDisplayName(b.photo), undefined, { numeric: true }) ||
+          a.index - b.index
+        );
+    }
+  };
+
+  return indexed.sort(compare).map(({ photo }) => photo);
+}
@@ -0,0 +1,173 @@
+import { loadImage, renderCollageImage } from './canvasRenderer';
+import type { MediaBackend } from './mediaBackend';
+import { createUploadError, type UploadResult } from './upload';
+
+/**
+ * Media backend that keeps photos in the browser and composites collages on a canvas
+ * Photos go to IndexedDB, so they survive a reload like saved projects do; where IndexedDB is not available
+ * (private windows in some browsers, test runners) they are kept in memory for the session.
+ */
+
+const DATABASE_NAME = 'family-collage-media';
+const STORE_NAME = 'photos';
+
+// Public IDs of local photos start with this, so they are never mistaken for Cloudinary ones
+const LOCAL_ID_PREFIX = 'local/';
+
+type StoredFile = {
+  publicId: string;
+  blob: Blob;
+};
+
+type FileStore = {
+  put: (file: StoredFile) => Promise<void>;
+  get: (publicId: string) => Promise<StoredFile | undefined>;
+};
+
+function createMemoryStore(): FileStore {
+  const files = new Map<string, StoredFile>();
+  return {
+    put: async (file) => {
+      files.set(file.publicId, file);
+    },
+    get: async (publicId) => files.get(publicId),
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbStore(): FileStore {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'publicId' });
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+  return {
+    put: async (file) => {
+      const db = await open();
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(file));
+    },
+    get: async (publicId) => {
+      const db = await open();
+      return requestToPromise<StoredFile | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(publicId));
+    },
+  };
+}
+
+function createLocalId(): string {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${LOCAL_ID_PREFIX}${id}`;
+}
+
+/**
+ * Creates the local backend
+ * @returns Backend
+ */
+export function createLocalBackend(): MediaBackend {
+  const store = typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createMemoryStore();
+  // Object URLs for the photos shown this session, by public ID
+  const urls = new Map<string, string>();
+  // Only the latest render is kept; older object URLs are revoked
+  let renderCount = 0;
+  let lastRender = { sequence: 0, url: '' };
+
+  const getUrl = (file: StoredFile) => {
+    let url = urls.get(file.publicId);
+    if (!url) {
+      url = URL.createObjectURL(file.blob);
+      urls.set(file.publicId, url);
+    }
+    return url;
+  };
+
+  return {
+    kind: 'local',
+    webFonts: false,
+
+    upload: async (file, options = {}) => {
+      if (options.signal?.aborted) {
+        throw createUploadError('Upload cancelled', 0);
+      }
+      const stored: StoredFile = { publicId: createLocalId(), blob: file };
+      const url = getUrl(stored);
+      let size: { width: number; height: number };
+      try {
+        const image = await loadImage(url);
+        size = { width: image.naturalWidth, height: image.naturalHeight };
+      } catch {
+        URL.revokeObjectURL(url);
+        urls.delete(stored.publicId);
+        // Status 415: the same file fails every time, so it is not retried
+        throw createUploadError('The file is not an image the browser can display', 415);
+      }
+      await store.put(stored);
+      options.onProgress?.(1);
+
+      const extension = /\.([^./]+)$/.exec(file.name)?.[1] || file.type.split('/')[1] || '';
+      const result: UploadResult = {
+        public_id: stored.publicId,
+        secure_url: url,
+        width: size.width,
+        height: size.height,
+        original_filename: file.name.replace(/\.[^./]+$/, ''),
+        format: extension.toLowerCase(),
+        created_at: new Date().toISOString(),
+      };
+      return result;
+    },
+
+    // The full photo is already in memory, so the thumbnail is the photo itself (the browser scales it)
+    getThumbnailUrl: (photo) => urls.get(photo.publicId) || photo.url,
+
+    resolvePhotoUrl: async (photo) => {
+      if (!photo.publicId.startsWith(LOCAL_ID_PREFIX)) {
+        return photo.url;
+      }
+      try {
+        const file = await store.get(photo.publicId);
+        return file ? getUrl(file) : photo.url;
+      } catch (error) {
+        console.error('Failed to read a local photo:', error);
+        return photo.url;
+      }
+    },
+
+    // Theme backgrounds live in Cloudinary; local collages use the theme's background color
+    getBackgroundUrl: () => null,
+
+    renderCollage: async (photos, familyName, options) => {
+      if (!photos.some(Boolean)) {
+        return '';
+      }
+      const sequence = ++renderCount;
+      // A missing photo leaves its slot empty rather than failing the card
+      const blob = await renderCollageImage(
+        photos.map((photo) => photo && { ...photo, url: urls.get(photo.publicId) || photo.url }),
+        familyName,
+        options,
+        { format: 'image/jpeg', quality: 0.92, webFonts: false }
+      );
+
+      // A slower, older render finishing late must not replace the newer one on screen
+      if (sequence < lastRender.sequence) {
+        return lastRender.url;
+      }
+      if (lastRender.url) {
+        URL.revokeObjectURL(lastRender.url);
+      }
+      lastRender = { sequence, url: URL.createObjectURL(blob) };
+      return lastRender.url;
+    },
+  };
+}
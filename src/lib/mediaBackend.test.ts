@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createMediaBackend, getMediaBackendKind } from './mediaBackend';
+
+describe('getMediaBackendKind', () => {
+  it('uses Cloudinary when a cloud name is configured, and the local backend otherwise', () => {
+    expect(getMediaBackendKind({ cloudName: 'demo', uploadPreset: '' })).toBe('cloudinary');
+    expect(getMediaBackendKind({ cloudName: '', uploadPreset: '' })).toBe('local');
+  });
+
+  it('uses the requested backend', () => {
+    expect(getMediaBackendKind({ kind: 'local', cloudName: 'demo', uploadPreset: '' })).toBe('local');
+    expect(getMediaBackendKind({ kind: 'cloudinary', cloudName: '', uploadPreset: '' })).toBe('cloudinary');
+  });
+});
+
+describe('createMediaBackend', () => {
+  it('draws offline cards without web fonts', () => {
+    expect(createMediaBackend({ kind: 'local', cloudName: 'demo', uploadPreset: '' }).webFonts).toBe(false);
+    expect(createMediaBackend({ cloudName: 'demo', uploadPreset: '' }).webFonts).toBe(true);
+  });
+});
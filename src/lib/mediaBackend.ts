@@ -0,0 +1,102 @@
+import { createCloudinaryBackend } from './cloudinaryBackend';
+import type { CollageOptions, CollagePhoto } from './collage';
+import { createLocalBackend } from './localBackend';
+import type { UploadOptions, UploadResult } from './upload';
+
+/**
+ * Where photos are stored and collages are rendered
+ * - cloudinary: uploads to Cloudinary, which renders the collage from its delivery URL
+ * - local: keeps photos in the browser (IndexedDB) and draws the collage on a canvas, with no network at all;
+ *   for offline development, demos and automated tests
+ */
+export type MediaBackendKind = 'cloudinary' | 'local';
+
+/** A photo stored by a backend: its public ID and the URL returned at upload */
+export type StoredPhoto = {
+  publicId: string;
+  url: string;
+};
+
+export type MediaBackend = {
+  kind: MediaBackendKind;
+  /**
+   * Whether cards drawn in the browser may fetch their fonts from Google Fonts
+   * False for the local backend, which makes no network requests; its text is drawn in fonts installed on the device.
+   */
+  webFonts: boolean;
+  /**
+   * Stores a photo
+   * @param file - Photo to store
+   * @param options - Progress callback, abort signal and the project the photo is for
+   * @returns The stored photo, in the shape of Cloudinary's upload response
+   */
+  upload: (file: File, options?: UploadOptions) => Promise<UploadResult>;
+  /**
+   * URL of a square thumbnail of a stored photo
+   * @param photo - Stored photo
+   * @param size - Thumbnail size in device pixels
+   */
+  getThumbnailUrl: (photo: StoredPhoto, size: number) => string;
+  /**
+   * URL a stored photo can be displayed from in this session
+   * Saved projects keep the URL from upload time, which the local backend has to recreate after a reload.
+   * @param photo - Stored photo
+   * @returns Displayable URL; the saved URL if the photo is not found
+   */
+  resolvePhotoUrl: (photo: StoredPhoto) => Promise<string>;
+  /**
+   * URL of a theme's background image, for drawing the collage in the browser
+   * @param backgroundId - Public ID of the background (see CollageTheme.backgroundId)
+   * @returns URL, or null when the backend has no background images (the theme's color is used)
+   */
+  getBackgroundUrl: (backgroundId: string) => string | null;
+  /**
+   * Renders a collage
+   * @param photos - Photos indexed by layout slot; null leaves the slot empty
+   * @param familyName - Family name filled into the greeting
+   * @param options - Layout and styling options
+   * @returns URL of the rendered collage, or '' when there is nothing to render
+   */
+  renderCollage: (
+    photos: Array<(CollagePhoto & StoredPhoto) | null>,
+    familyName: string,
+    options: CollageOptions
+  ) => Promise<string>;
+};
+
+export type MediaBackendConfig = {
+  /** Requested backend (PUBLIC_MEDIA_BACKEND); defaults to Cloudinary when a cloud name is configured */
+  kind?: string;
+  cloudName: string;
+  uploadPreset: string;
+  /** Have the server sign collage URLs (PUBLIC_CLOUDINARY_SIGNED_URLS), for accounts with strict transformations on */
+  signedUrls?: boolean;
+  /** Upload with the unsigned preset (PUBLIC_CLOUDINARY_UNSIGNED_UPLOADS) instead of signatures from the server */
+  unsignedUploads?: boolean;
+};
+
+/**
+ * Picks the backend to use
+ * @param config - Requested backend and Cloudinary settings
+ * @returns The requested backend, or local when none was requested and Cloudinary is not configured
+ */
+export function getMediaBackendKind(config: MediaBackendConfig): MediaBackendKind {
+  if (config.kind === 'cloudinary' || config.kind === 'local') {
+    return config.kind;
+  }
+  return config.cloudName ? 'cloudinary' : 'local';
+}
+
+/**
+ * Creates the media backend for the app
+ * @param config - Requested backend and Cloudinary settings
+ * @returns Backend
+ */
+export function createMediaBackend(config: MediaBackendConfig): MediaBackend {
+  return getMediaBackendKind(config) === 'local'
+    ? createLocalBackend()
+    : createCloudinaryBackend(config.cloudName, config.uploadPreset, {
+        signedUrls: config.signedUrls,
+        unsignedUploads: config.unsignedUploads,
+      });
+}
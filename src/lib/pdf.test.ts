@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createPdf } from './pdf';
+
+async function getTitle(title: string): Promise<string | undefined> {
+  const pdf = await createPdf([{ width: 360, height: 504, images: [], lines: [] }], title).text();
+  return pdf.match(/\/Title <([0-9a-f]+)>/i)?.[1];
+}
+
+describe('createPdf', () => {
+  it('writes the title as UTF-16BE with a byte order mark', async () => {
+    expect(await getTitle('Hi é')).toBe('FEFF00480069002000e9');
+  });
+
+  it('keeps both surrogates of characters beyond U+FFFF in the title', async () => {
+    expect(await getTitle('🎄 Smiths')).toBe('FEFFd83cdf8400200053006d0069007400680073');
+  });
+
+  it('starts with a PDF header and ends with the end-of-file marker', async () => {
+    const pdf = await createPdf([{ width: 360, height: 504, images: [], lines: [] }], 'The Smiths').text();
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Minimal PDF writer for the print export: pages made of JPEG images and thin lines (crop and fold marks)
+ * Sizes are in PDF points (1/72 inch) with the origin at the bottom left of the page, as in the PDF format.
+ */
+
+export type PdfBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PdfImage = {
+  /** JPEG file contents, embedded as is */
+  jpeg: Uint8Array<ArrayBuffer>;
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Where the image is placed; it is stretched to fill the box */
+  box: PdfBox;
+  /** Anything of the image outside this box is cut off, e.g. bleed that would run past a fold */
+  clip?: PdfBox;
+};
+
+export type PdfLine = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  dashed?: boolean;
+};
+
+export type PdfPage = {
+  /** Size of the printed sheet, marks included */
+  width: number;
+  height: number;
+  /** Finished size, where the sheet is cut */
+  trimBox?: PdfBox;
+  /** Area the artwork runs to, cut off when trimming */
+  bleedBox?: PdfBox;
+  images: PdfImage[];
+  lines: PdfLine[];
+};
+
+// Hairline width used by print shops for crop marks
+const MARK_LINE_WIDTH = 0.25;
+
+const encoder = new TextEncoder();
+
+// At most three decimals and never exponent notation, which PDF numbers don't allow
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function formatBox(box: PdfBox): string {
+  return `[${[box.x, box.y, box.x + box.width, box.y + box.height].map(formatNumber).join(' ')}]`;
+}
+
+// UTF-16BE hex string, so titles in any script survive; characters beyond U+FFFF keep both surrogates
+function formatText(text: string): string {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<FEFF${hex}>`;
+}
+
+function formatDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+function buildPageContent(page: PdfPage): string {
+  const commands: string[] = [];
+  page.images.forEach((image, index) => {
+    const { x, y, width, height } = image.box;
+    commands.push('q');
+    if (image.clip) {
+      const clip = image.clip;
+      commands.push(`${[clip.x, clip.y, clip.width, clip.height].map(formatNumber).join(' ')} re W n`);
+    }
+    commands.push(`${[width, 0, 0, height, x, y].map(formatNumber).join(' ')} cm`, `/Im${index} Do`, 'Q');
+  });
+  if (page.lines.length > 0) {
+    commands.push('q', `${MARK_LINE_WIDTH} w`, '0 G');
+    page.lines.forEach((line) => {
+      commands.push(
+        line.dashed ? '[2 2] 0 d' : '[] 0 d',
+        `${formatNumber(line.x1)} ${formatNumber(line.y1)} m ${formatNumber(line.x2)} ${formatNumber(line.y2)} l S`
+      );
+    });
+    commands.push('Q');
+  }
+  return commands.join('\n');
+}
+
+/**
+ * Writes a PDF document
+ * @param pages - Pages in order
+ * @param title - Document title, shown by PDF viewers
+ * @returns The PDF file
+ */
+export function createPdf(pages: PdfPage[], title: string): Blob {
+  const chunks: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, dictionary: string, stream?: Uint8Array<ArrayBuffer>) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dictionary}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1-3 are the catalog, page tree and document info; each page then takes a page, a content stream and its images
+  let nextId = 4;
+  const pageIds = pages.map((page) => ({
+    page: nextId++,
+    content: nextId++,
+    images: page.images.map(() => nextId++),
+  }));
+
+  // The binary comment tells file transfer tools not to treat the file as text
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((ids) => `${ids.page} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, `<< /Title ${formatText(title)} /CreationDate (${formatDate(new Date())}) >>`);
+
+  pages.forEach((page, pageIndex) => {
+    const ids = pageIds[pageIndex];
+    const mediaBox = formatBox({ x: 0, y: 0, width: page.width, height: page.height });
+    const boxes = [
+      `/MediaBox ${mediaBox}`,
+      page.bleedBox ? `/BleedBox ${formatBox(page.bleedBox)}` : '',
+      page.trimBox ? `/TrimBox ${formatBox(page.trimBox)}` : '',
+    ].filter(Boolean);
+    const xObjects = ids.images.map((id, index) => `/Im${index} ${id} 0 R`).join(' ');
+    writeObject(
+      ids.page,
+      `<< /Type /Page /Parent 2 0 R ${boxes.join(' ')} /Resources << /XObject << ${xObjects} >> >> /Contents ${ids.content} 0 R >>`
+    );
+
+    const content = encoder.encode(buildPageContent(page));
+    writeObject(ids.content, `<< /Length ${content.length} >>`, content);
+
+    page.images.forEach((image, index) => {
+      writeObject(
+        ids.images[index],
+        `<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`,
+        image.jpeg
+      );
+    });
+  });
+
+  // Cross-reference table: the byte offset of every object, each entry exactly 20 bytes
+  const xrefOffset = length;
+  const objectCount = nextId;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
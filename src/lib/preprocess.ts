@@ -0,0 +1,185 @@
+import { extractExifSegment, insertExifSegment, readExifMetadata, type ExifMetadata } from './exif';
+
+/**
+ * Prepares photos in the browser before upload: upright (EXIF orientation), no larger than needed,
+ * re-encoded at a chosen quality, and without location data unless the user keeps it
+ */
+
+// Cloudinary's limit for images on the free plan
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export type PreprocessOptions = {
+  /** Longest side of the uploaded photo, in pixels; larger photos are scaled down */
+  maxLongEdge: number;
+  format: OutputFormat;
+  /** Encoder quality, 0-1 */
+  quality: number;
+  /** Drop GPS location (and with it the rest of the EXIF data) from the uploaded file */
+  stripGps: boolean;
+};
+
+export const MAX_LONG_EDGE_OPTIONS = [1600, 2048, 3000, 4096];
+
+export const OUTPUT_FORMATS: Array<{ value: OutputFormat; label: string }> = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxLongEdge: 3000, // Enough for a 5x7 print at 300 DPI (2100x1500 slots at most)
+  format: 'image/jpeg',
+  quality: 0.85,
+  stripGps: true,
+};
+
+export type PreprocessResult =
+  | { ok: true; file: File; exif: ExifMetadata }
+  | { ok: false; reason: string };
+
+const HEIC_PATTERN = /\.(heic|heif)$/i;
+
+/**
+ * Whether a file is HEIC/HEIF (iPhone photos); browsers often leave the MIME type empty for these
+ */
+function isHeic(file: File): boolean {
+  return /^image\/hei[cf]/.test(file.type) || HEIC_PATTERN.test(file.name);
+}
+
+/**
+ * Whether a file looks like a photo the pipeline can try to read
+ * @param file - Dropped or picked file
+ */
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || isHeic(file);
+}
+
+/**
+ * Decodes a photo, upright: browsers apply the EXIF orientation when decoding with `from-image`
+ * Falls back to an <img> element where createImageBitmap can't read the format.
+ */
+async function decodeImage(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Try an <img> below (e.g. Safari decodes HEIC there but not always in createImageBitmap)
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, format: OutputFormat, quality: number): Promise<Blob | null> {
+  // JPEG has no alpha, so transparent pixels (PNG, GIF) would come out black; put white underneath them first
+  const context = format === 'image/jpeg' ? canvas.getContext('2d') : null;
+  if (context) {
+    context.save();
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.restore();
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, format, quality));
+}
+
+// "IMG_2041.HEIC" -> "IMG_2041.jpg"
+function renameForFormat(name: string, format: OutputFormat): string {
+  const base = name.replace(/\.[^./]+$/, '') || 'photo';
+  return `${base}.${format === 'image/webp' ? 'webp' : 'jpg'}`;
+}
+
+/**
+ * Prepares one photo for upload
+ * Photos that are already upright, small enough, in the output format and free of (unwanted) GPS data
+ * are uploaded unchanged, so they aren't re-compressed for nothing.
+ * @param file - Photo picked or dropped by the user
+ * @param options - Size, format, quality and GPS settings
+ * @returns The file to upload and the EXIF metadata of the original, or the reason it can't be uploaded
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<PreprocessResult> {
+  if (!isImageFile(file)) {
+    return { ok: false, reason: 'Not an image file' };
+  }
+
+  // Read metadata from the original: re-encoding drops it
+  const exif = await readExifMetadata(file);
+
+  let image: ImageBitmap | HTMLImageElement;
+  try {
+    image = await decodeImage(file);
+  } catch (error) {
+    console.warn(`Could not decode ${file.name}:`, error);
+    return {
+      ok: false,
+      reason: isHeic(file)
+        ? 'HEIC photos cannot be converted in this browser. Open it in Safari, or export it as JPEG first'
+        : 'The image could not be read; the file may be damaged or in an unsupported format',
+    };
+  }
+
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const scale = Math.min(1, options.maxLongEdge / Math.max(width, height));
+  const removeGps = options.stripGps && !!exif.hasGps;
+
+  const canUploadAsIs =
+    file.type === options.format &&
+    scale === 1 &&
+    (exif.orientation || 1) === 1 &&
+    !removeGps &&
+    file.size <= MAX_UPLOAD_BYTES;
+  if (canUploadAsIs) {
+    if ('close' in image) image.close();
+    return { ok: true, file, exif };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return { ok: false, reason: 'Your browser could not process the image' };
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if ('close' in image) image.close();
+
+  let blob = await encodeCanvas(canvas, options.format, options.quality);
+  // Browsers without a WebP encoder (older Safari) return PNG instead; JPEG keeps the file small
+  if (blob && blob.type !== options.format) {
+    blob = await encodeCanvas(canvas, 'image/jpeg', options.quality);
+  }
+  if (!blob) {
+    return { ok: false, reason: 'Your browser could not re-encode the image' };
+  }
+  const format = blob.type as OutputFormat;
+
+  // Keep the original EXIF data (camera, date, location) unless the location is being removed
+  if (!options.stripGps && format === 'image/jpeg') {
+    const segment = await extractExifSegment(file);
+    if (segment) {
+      blob = insertExifSegment(blob, segment);
+    }
+  }
+
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    return {
+      ok: false,
+      reason: `Still larger than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB after resizing; try a smaller maximum size or lower quality`,
+    };
+  }
+  return {
+    ok: true,
+    file: new File([blob], renameForFormat(file.name, format), { type: format, lastModified: file.lastModified }),
+    exif,
+  };
+}
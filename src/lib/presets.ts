@@ -0,0 +1,76 @@
+export type OutputPreset = {
+  id: string;
+  name: string;
+  description: string;
+  /** Canvas width in pixels */
+  width: number;
+  /** Canvas height in pixels */
+  height: number;
+};
+
+// Reference canvas the default margins, gaps, ribbon and font sizes were designed for
+export const REFERENCE_WIDTH = 1600;
+export const REFERENCE_HEIGHT = 900;
+
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  {
+    id: 'desktop-16x9',
+    name: 'Desktop 16:9',
+    description: '1600x900 landscape for screens and email',
+    width: REFERENCE_WIDTH,
+    height: REFERENCE_HEIGHT,
+  },
+  {
+    id: 'print-5x7',
+    name: '5x7 print',
+    description: '7x5 inch landscape card at 300 DPI',
+    width: 2100,
+    height: 1500,
+  },
+  {
+    id: 'a6-postcard',
+    name: 'A6 postcard',
+    description: '148x105 mm landscape postcard at 300 DPI',
+    width: 1748,
+    height: 1240,
+  },
+  {
+    id: 'instagram-square',
+    name: 'Instagram square',
+    description: '1080x1080 square post',
+    width: 1080,
+    height: 1080,
+  },
+  {
+    id: 'instagram-story',
+    name: 'Portrait story',
+    description: '1080x1920 portrait story',
+    width: 1080,
+    height: 1920,
+  },
+];
+
+export const DEFAULT_PRESET_ID = 'desktop-16x9';
+
+/**
+ * Looks up an output preset by id, falling back to the default preset
+ * @param id - Preset id
+ * @returns Matching preset, or the default preset if the id is unknown
+ */
+export function getOutputPreset(id: string | undefined): OutputPreset {
+  return (
+    OUTPUT_PRESETS.find((preset) => preset.id === id) ||
+    OUTPUT_PRESETS.find((preset) => preset.id === DEFAULT_PRESET_ID)!
+  );
+}
+
+/**
+ * Scale factor from the reference canvas to a preset
+ * Uses the smaller of the two axis ratios so scaled margins, ribbon and text
+ * always fit inside the canvas (e.g. a portrait story is limited by its width)
+ * @param preset - Output preset
+ * @returns Multiplier for sizes designed against the 1600x900 reference canvas
+ */
+export function getPresetScale(preset: OutputPreset): number {
+  return Math.min(preset.width / REFERENCE_WIDTH, preset.height / REFERENCE_HEIGHT);
+}
@@ -0,0 +1,315 @@
+import { loadCollageFonts, renderCollageImage, type RenderablePhoto } from './canvasRenderer';
+import type { CollageOptions } from './collage';
+import { createPdf, type PdfBox, type PdfImage, type PdfLine, type PdfPage } from './pdf';
+import { getOutputPreset } from './presets';
+import { getCollageTheme } from './themes';
+
+/**
+ * Print-ready export: the card laid out at a standard card size at 300 DPI, with bleed and crop marks, as a PDF
+ * An optional second page carries a message for the back of the card (the inside, for folded cards).
+ */
+
+export type PrintSize = {
+  id: string;
+  name: string;
+  description: string;
+  /** Finished card size in millimeters, long side first; the card is turned to match the output preset */
+  width: number;
+  height: number;
+  /** Printed on a sheet twice the card's size and folded in half along its long side */
+  folded: boolean;
+};
+
+export type PrintOptions = {
+  sizeId: string;
+  /** Bleed on every side in millimeters; 0 for none */
+  bleed: number;
+  cropMarks: boolean;
+  /** Message for the back of the card; blank leaves the PDF at one page */
+  backMessage: string;
+};
+
+export const PRINT_SIZES: PrintSize[] = [
+  { id: 'card-5x7', name: '5x7 card', description: '7x5 inch flat card', width: 177.8, height: 127, folded: false },
+  { id: 'card-4x6', name: '4x6 card', description: '6x4 inch flat card', width: 152.4, height: 101.6, folded: false },
+  { id: 'a5', name: 'A5 card', description: '210x148 mm flat card', width: 210, height: 148, folded: false },
+  {
+    id: 'a6-folded',
+    name: 'Folded A6',
+    description: '148x105 mm card folded from an A5 sheet',
+    width: 148,
+    height: 105,
+    folded: true,
+  },
+];
+
+export const DEFAULT_PRINT_SIZE_ID = 'card-5x7';
+
+/** Bleed choices in millimeters; 3 mm is what most print shops ask for */
+export const BLEED_OPTIONS = [0, 2, 3, 5];
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  sizeId: DEFAULT_PRINT_SIZE_ID,
+  bleed: 3,
+  cropMarks: true,
+  backMessage: '',
+};
+
+const PRINT_DPI = 300;
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+// Crop marks start this far outside the bleed, so they are never printed on the card, and are this long
+const MARK_GAP_MM = 2;
+const MARK_LENGTH_MM = 5;
+const JPEG_QUALITY = 0.92;
+const MESSAGE_COLOR = '#333333';
+
+/**
+ * Looks up a print size by id, falling back to the default size
+ * @param id - Print size id
+ * @returns Matching size, or the default size if the id is unknown
+ */
+export function getPrintSize(id: string | undefined): PrintSize {
+  return (
+    PRINT_SIZES.find((size) => size.id === id) || PRINT_SIZES.find((size) => size.id === DEFAULT_PRINT_SIZE_ID)!
+  );
+}
+
+function mmToPixels(mm: number): number {
+  return Math.round((mm / MM_PER_INCH) * PRINT_DPI);
+}
+
+function mmToPoints(mm: number): number {
+  return (mm / MM_PER_INCH) * POINTS_PER_INCH;
+}
+
+function boxToPoints(box: PdfBox): PdfBox {
+  return { x: mmToPoints(box.x), y: mmToPoints(box.y), width: mmToPoints(box.width), height: mmToPoints(box.height) };
+}
+
+function growBox(box: PdfBox, amount: number): PdfBox {
+  return { x: box.x - amount, y: box.y - amount, width: box.width + amount * 2, height: box.height + amount * 2 };
+}
+
+// Two marks at each corner of the trimmed sheet, lined up with its edges and kept clear of the bleed
+function getCropMarks(trim: PdfBox, bleed: number): PdfLine[] {
+  const start = bleed + MARK_GAP_MM;
+  const end = start + MARK_LENGTH_MM;
+  const lines: PdfLine[] = [];
+  [trim.x, trim.x + trim.width].forEach((x, right) => {
+    [trim.y, trim.y + trim.height].forEach((y, top) => {
+      const outX = right ? 1 : -1;
+      const outY = top ? 1 : -1;
+      lines.push({ x1: x + outX * start, y1: y, x2: x + outX * end, y2: y });
+      lines.push({ x1: x, y1: y + outY * start, x2: x, y2: y + outY * end });
+    });
+  });
+  return lines;
+}
+
+// Dashed marks at both ends of the fold, outside the sheet
+function getFoldMarks(trim: PdfBox, bleed: number, isVertical: boolean): PdfLine[] {
+  const start = bleed + MARK_GAP_MM;
+  const end = start + MARK_LENGTH_MM;
+  if (isVertical) {
+    const x = trim.x + trim.width / 2;
+    return [
+      { x1: x, y1: trim.y - start, x2: x, y2: trim.y - end, dashed: true },
+      { x1: x, y1: trim.y + trim.height + start, x2: x, y2: trim.y + trim.height + end, dashed: true },
+    ];
+  }
+  const y = trim.y + trim.height / 2;
+  return [
+    { x1: trim.x - start, y1: y, x2: trim.x - end, y2: y, dashed: true },
+    { x1: trim.x + trim.width + start, y1: y, x2: trim.x + trim.width + end, y2: y, dashed: true },
+  ];
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+async function encodeJpeg(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> {
+  if (canvas instanceof HTMLCanvasElement) {
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+      throw new Error('Could not encode the message page');
+    }
+    return blob;
+  }
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+}
+
+// Breaks a paragraph into lines that fit the width, word by word; a word too long for a line gets a line of its own
+function wrapParagraph(context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, paragraph: string, maxWidth: number) {
+  const lines: string[] = [];
+  let line = '';
+  paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Draws the back-of-card message, centered on white in the theme's font
+ * The font shrinks until the whole message fits inside a margin of a tenth of the card.
+ * @param message - Message; line breaks are kept
+ * @param width - Card width in pixels
+ * @param height - Card height in pixels
+ * @param fontFamily - Font to write in
+ * @param webFonts - Whether the font may be fetched from Google Fonts
+ * @returns The page as a JPEG
+ */
+async function renderMessageImage(
+  message: string,
+  width: number,
+  height: number,
+  fontFamily: string,
+  webFonts: boolean
+): Promise<Blob> {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  const maxWidth = width * 0.8;
+  const maxHeight = height * 0.8;
+  let fontSize = Math.round(height / 12);
+  await loadCollageFonts([{ text: message, fontFamily, fontSize }], webFonts);
+
+  let lines: string[] = [];
+  for (; fontSize > 8; fontSize = Math.floor(fontSize * 0.9)) {
+    context.font = `${fontSize}px "${fontFamily}", serif`;
+    lines = message.split('\n').flatMap((paragraph) => wrapParagraph(context, paragraph, maxWidth));
+    const fits = lines.every((line) => context.measureText(line).width <= maxWidth);
+    if (fits && lines.length * fontSize * 1.4 <= maxHeight) {
+      break;
+    }
+  }
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = MESSAGE_COLOR;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const lineHeight = fontSize * 1.4;
+  const top = (height - lines.length * lineHeight) / 2 + lineHeight / 2;
+  lines.forEach((line, index) => context.fillText(line, width / 2, top + index * lineHeight, maxWidth));
+  return encodeJpeg(canvas);
+}
+
+/**
+ * Builds the print PDF for a card
+ * The card is laid out again at the print size (in the output preset's orientation) rather than scaled,
+ * so margins and text keep their proportions. Folded cards put the front on the lower half of the sheet
+ * (the right half for portrait cards) and the message in the same place on the inside, which is where it
+ * lands when the sheet is printed double-sided flipping on the short edge.
+ * @param photos - Photos indexed by layout slot; null leaves the slot empty
+ * @param familyName - Family name filled into the greeting
+ * @param options - Layout and styling options
+ * @param printOptions - Card size, bleed, crop marks and back message
+ * @param backgroundUrl - Theme background image, if there is one
+ * @param webFonts - Whether fonts may be fetched from Google Fonts (see loadCollageFonts)
+ * @returns The PDF file
+ */
+export async function createPrintPdf(
+  photos: Array<RenderablePhoto | null>,
+  familyName: string,
+  options: CollageOptions,
+  printOptions: PrintOptions,
+  backgroundUrl: string | null,
+  webFonts = true
+): Promise<Blob> {
+  const size = getPrintSize(printOptions.sizeId);
+  const preset = getOutputPreset(options.presetId);
+  const isPortrait = preset.height > preset.width;
+  const cardWidth = isPortrait ? size.height : size.width;
+  const cardHeight = isPortrait ? size.width : size.height;
+  const bleed = Math.max(0, printOptions.bleed);
+  const margin = printOptions.cropMarks ? bleed + MARK_GAP_MM + MARK_LENGTH_MM : bleed;
+
+  // The trimmed sheet, and the panel of it that is the front of the card
+  const sheet: PdfBox = {
+    x: margin,
+    y: margin,
+    width: size.folded && isPortrait ? cardWidth * 2 : cardWidth,
+    height: size.folded && !isPortrait ? cardHeight * 2 : cardHeight,
+  };
+  const front: PdfBox = {
+    x: size.folded && isPortrait ? margin + cardWidth : margin,
+    y: margin,
+    width: cardWidth,
+    height: cardHeight,
+  };
+  const pageSize = { width: mmToPoints(sheet.width + margin * 2), height: mmToPoints(sheet.height + margin * 2) };
+  const pageBoxes = { trimBox: boxToPoints(sheet), bleedBox: boxToPoints(growBox(sheet, bleed)) };
+
+  const lines = printOptions.cropMarks
+    ? [...getCropMarks(sheet, bleed), ...(size.folded ? getFoldMarks(sheet, bleed, isPortrait) : [])]
+    : [];
+  const pointLines = lines.map((line) => ({
+    ...line,
+    x1: mmToPoints(line.x1),
+    y1: mmToPoints(line.y1),
+    x2: mmToPoints(line.x2),
+    y2: mmToPoints(line.y2),
+  }));
+
+  const widthPixels = mmToPixels(cardWidth);
+  const heightPixels = mmToPixels(cardHeight);
+  const bleedPixels = mmToPixels(bleed);
+  const artwork = await renderCollageImage(
+    photos,
+    familyName,
+    { ...options, canvasSize: { width: widthPixels, height: heightPixels } },
+    { format: 'image/jpeg', quality: JPEG_QUALITY, backgroundUrl, bleed: bleedPixels, webFonts }
+  );
+  // On a folded sheet the front's bleed stops at the fold instead of running onto the back
+  const frontBleed = growBox(front, bleed);
+  const clip = !size.folded
+    ? undefined
+    : isPortrait
+      ? { ...frontBleed, x: front.x, width: frontBleed.width - bleed }
+      : { ...frontBleed, height: frontBleed.height - bleed };
+  const frontImage: PdfImage = {
+    jpeg: new Uint8Array(await artwork.arrayBuffer()),
+    pixelWidth: widthPixels + bleedPixels * 2,
+    pixelHeight: heightPixels + bleedPixels * 2,
+    box: boxToPoints(frontBleed),
+    clip: clip && boxToPoints(clip),
+  };
+  const pages: PdfPage[] = [{ ...pageSize, ...pageBoxes, images: [frontImage], lines: pointLines }];
+
+  const message = printOptions.backMessage.trim();
+  if (message) {
+    const messagePage = await renderMessageImage(
+      message,
+      widthPixels,
+      heightPixels,
+      getCollageTheme(options.themeId).font.family,
+      webFonts
+    );
+    const messageImage: PdfImage = {
+      jpeg: new Uint8Array(await messagePage.arrayBuffer()),
+      pixelWidth: widthPixels,
+      pixelHeight: heightPixels,
+      box: boxToPoints(front),
+    };
+    pages.push({ ...pageSize, ...pageBoxes, images: [messageImage], lines: pointLines });
+  }
+
+  return createPdf(pages, familyName.trim() ? `${familyName.trim()} holiday card` : 'Holiday card');
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADJUSTMENTS } from './adjustments';
+import { DEFAULT_CROP } from './crop';
+import { getLayoutTemplate } from './layouts';
+import { exportProjectFile, MAX_PROJECT_FILE_BYTES, parseProjectFile, PROJECT_FILE_VERSION } from './projectFile';
+import type { ProjectState } from './projects';
+
+const tree = {
+  publicId: 'family-collage/s/p/tree',
+  url: 'https://res.cloudinary.com/demo/image/upload/family-collage/s/p/tree.jpg',
+  width: 4000,
+  height: 3000,
+  fileName: 'IMG_2041.jpg',
+  uploadedAt: '2025-12-01T10:00:00.000Z',
+  faces: [[100, 200, 300, 300]] as Array<[number, number, number, number]>,
+};
+
+const state: ProjectState = {
+  familyName: "O'Brien-Müller",
+  photos: [tree],
+  layout: [
+    { ...tree, crop: { ...DEFAULT_CROP, gravity: 'manual', focalX: 0.25, zoom: 1.5 }, adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 20 } },
+    ...Array<null>(getLayoutTemplate('hero-thumbnails').slots.length - 1).fill(null),
+  ],
+  layoutId: 'hero-thumbnails',
+  presetId: 'print-5x7',
+  themeId: 'winter-silver',
+  greeting: { title: '{name}, {year}', titleStyle: { fontFamily: 'Lobster', color: 'FFD700' }, message: 'Love, Anna', year: 2025 },
+  harmonizeColors: true,
+};
+
+// A project file with some fields replaced, for the error cases
+function withProject(changes: Record<string, unknown>, file: Record<string, unknown> = {}): string {
+  return JSON.stringify({ ...JSON.parse(exportProjectFile('Smith 2025', state)), ...file, project: { ...state, ...changes } });
+}
+
+describe('parseProjectFile', () => {
+  it('reads back an exported project', () => {
+    expect(parseProjectFile(exportProjectFile('  Smith 2025 ', state))).toEqual({ ok: true, name: 'Smith 2025', state });
+  });
+
+  it('reports every problem with the path of the field', () => {
+    const result = parseProjectFile(
+      withProject({
+        familyName: 42,
+        layout: [{ ...state.layout[0], crop: { ...DEFAULT_CROP, zoom: 9 } }, ...state.layout.slice(1)],
+        greeting: { title: 'Hi', titleStyle: { color: '#FFD700' } },
+      })
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'project.familyName must be a string',
+        "project.greeting.titleStyle.color must be a 6-digit hex color without '#'",
+        'project.layout[0].crop.zoom must be between 1 and 3 (got 9)',
+      ],
+    });
+  });
+
+  it('refuses files from a newer version of the app, and versions that are not whole numbers', () => {
+    const newer = parseProjectFile(withProject({}, { version: PROJECT_FILE_VERSION + 1 }));
+    expect(newer).toMatchObject({ ok: false, errors: [expect.stringContaining('newer version of the app')] });
+    expect(parseProjectFile(withProject({}, { version: '1' }))).toEqual({
+      ok: false,
+      errors: ['version must be a positive whole number'],
+    });
+  });
+
+  it('refuses files that are not projects', () => {
+    expect(parseProjectFile('{')).toMatchObject({ ok: false, errors: [expect.stringContaining('not valid JSON')] });
+    expect(parseProjectFile('{"format":"other"}')).toMatchObject({ ok: false, errors: [expect.stringContaining('not a collage project')] });
+  });
+
+  it('refuses files over the size limit', () => {
+    const file = withProject({ familyName: 'x'.repeat(MAX_PROJECT_FILE_BYTES) });
+    expect(parseProjectFile(file)).toEqual({ ok: false, errors: ['The file is larger than 256 KB, too large for a collage project'] });
+  });
+
+  it('drops keys the app does not know', () => {
+    const stray = { script: '<img onerror=alert(1)>' };
+    const result = parseProjectFile(
+      withProject({
+        ...stray,
+        photos: [{ ...tree, ...stray }],
+        layout: [
+          {
+            ...state.layout[0],
+            ...stray,
+            crop: { ...state.layout[0]!.crop, ...stray },
+            adjustments: { ...state.layout[0]!.adjustments, ...stray },
+          },
+          ...state.layout.slice(1),
+        ],
+        greeting: { ...state.greeting, ...stray, titleStyle: { ...state.greeting.titleStyle, ...stray } },
+      })
+    );
+    expect(result).toEqual({ ok: true, name: 'Smith 2025', state });
+    expect(JSON.stringify(result)).not.toContain('script');
+  });
+});
@@ -0,0 +1,329 @@
+import { PHOTO_FILTERS, type PhotoAdjustments } from './adjustments';
+import { MAX_ZOOM, type PhotoCrop } from './crop';
+import type { Greeting, TextStyle } from './greeting';
+import { LAYOUT_TEMPLATES, getLayoutTemplate } from './layouts';
+import { OUTPUT_PRESETS } from './presets';
+import type { PlacedProjectPhoto, ProjectPhoto, ProjectState } from './projects';
+import { COLLAGE_THEMES } from './themes';
+
+/**
+ * Portable project files: a versioned JSON document that can be handed to someone else to finish
+ * Photos are referenced by Cloudinary public ID and URL, so both people need access to the same cloud.
+ */
+
+export const PROJECT_FILE_FORMAT = 'family-collage-project';
+
+// Bump when the file shape changes; older versions must keep importing
+export const PROJECT_FILE_VERSION = 1;
+
+/** A card with a dozen photos and every crop set is a few kilobytes; anything far bigger is not a project */
+export const MAX_PROJECT_FILE_BYTES = 256 * 1024;
+
+export type ProjectFile = {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  /** ISO timestamp */
+  exportedAt: string;
+  project: ProjectState;
+};
+
+export type ProjectFileResult =
+  | { ok: true; name: string; state: ProjectState }
+  | { ok: false; errors: string[] };
+
+/**
+ * Serializes a project for download
+ * @param name - Project name
+ * @param state - Editor state
+ * @returns Pretty-printed JSON document
+ */
+export function exportProjectFile(name: string, state: ProjectState): string {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    project: state,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * File name for a downloaded project, e.g. "smith-2025.collage.json"
+ * @param name - Project name
+ */
+export function getProjectFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'collage'}.collage.json`;
+}
+
+// Collects every problem with a file, each prefixed with the path of the offending field
+type Errors = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkString(value: unknown, path: string, errors: Errors, { optional = false, nonEmpty = false } = {}) {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string`);
+  } else if (nonEmpty && !value.trim()) {
+    errors.push(`${path} must not be empty`);
+  }
+}
+
+function checkNumber(value: unknown, path: string, errors: Errors, { optional = false, min = -Infinity, max = Infinity } = {}) {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a number`);
+  } else if (value < min || value > max) {
+    errors.push(`${path} must be between ${min} and ${max} (got ${value})`);
+  }
+}
+
+function checkBoolean(value: unknown, path: string, errors: Errors, { optional = false } = {}) {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'boolean') {
+    errors.push(`${path} must be true or false`);
+  }
+}
+
+function checkOneOf(value: unknown, allowed: readonly unknown[], path: string, errors: Errors) {
+  if (!allowed.includes(value)) {
+    errors.push(`${path} must be one of ${allowed.map((option) => JSON.stringify(option)).join(', ')} (got ${JSON.stringify(value)})`);
+  }
+}
+
+function checkColor(value: unknown, path: string, errors: Errors) {
+  if (value !== undefined && (typeof value !== 'string' || !/^[0-9A-Fa-f]{6}$/.test(value))) {
+    errors.push(`${path} must be a 6-digit hex color without '#'`);
+  }
+}
+
+function checkDate(value: unknown, path: string, errors: Errors) {
+  if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+    errors.push(`${path} must be an ISO date`);
+  }
+}
+
+function checkPhoto(value: unknown, path: string, errors: Errors) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkString(value.publicId, `${path}.publicId`, errors, { nonEmpty: true });
+  checkString(value.url, `${path}.url`, errors, { nonEmpty: true });
+  if (typeof value.url === 'string' && value.url && !/^https?:\/\//.test(value.url)) {
+    errors.push(`${path}.url must be an http(s) URL`);
+  }
+  checkNumber(value.width, `${path}.width`, errors, { optional: true, min: 1 });
+  checkNumber(value.height, `${path}.height`, errors, { optional: true, min: 1 });
+  checkString(value.fileName, `${path}.fileName`, errors, { optional: true });
+  checkDate(value.uploadedAt, `${path}.uploadedAt`, errors);
+  checkDate(value.takenAt, `${path}.takenAt`, errors);
+  if (value.faces !== undefined) {
+    if (!Array.isArray(value.faces)) {
+      errors.push(`${path}.faces must be an array`);
+    } else {
+      value.faces.forEach((face, index) => {
+        if (!Array.isArray(face) || face.length !== 4 || face.some((n) => typeof n !== 'number' || !Number.isFinite(n) || n < 0)) {
+          errors.push(`${path}.faces[${index}] must be [x, y, width, height] in pixels`);
+        }
+      });
+    }
+  }
+}
+
+function checkCrop(value: unknown, path: string, errors: Errors) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkOneOf(value.gravity, ['auto', 'faces', 'manual'], `${path}.gravity`, errors);
+  checkNumber(value.focalX, `${path}.focalX`, errors, { min: 0, max: 1 });
+  checkNumber(value.focalY, `${path}.focalY`, errors, { min: 0, max: 1 });
+  checkNumber(value.zoom, `${path}.zoom`, errors, { min: 1, max: MAX_ZOOM });
+  checkOneOf(value.rotation, [0, 90, 180, 270], `${path}.rotation`, errors);
+  checkBoolean(value.flipHorizontal, `${path}.flipHorizontal`, errors);
+  checkBoolean(value.flipVertical, `${path}.flipVertical`, errors);
+}
+
+function checkAdjustments(value: unknown, path: string, errors: Errors) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkOneOf(value.filter, PHOTO_FILTERS.map((filter) => filter.value), `${path}.filter`, errors);
+  (['brightness', 'contrast', 'saturation'] as const).forEach((key) =>
+    checkNumber(value[key], `${path}.${key}`, errors, { min: -100, max: 100 })
+  );
+  checkBoolean(value.autoImprove, `${path}.autoImprove`, errors);
+}
+
+function checkTextStyle(value: unknown, path: string, errors: Errors) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const style = value as Record<keyof TextStyle, unknown>;
+  checkString(style.fontFamily, `${path}.fontFamily`, errors, { optional: true, nonEmpty: true });
+  checkNumber(style.fontSize, `${path}.fontSize`, errors, { optional: true, min: 1, max: 500 });
+  checkColor(style.color, `${path}.color`, errors);
+}
+
+function checkGreeting(value: unknown, path: string, errors: Errors) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const greeting = value as Record<keyof Greeting, unknown>;
+  checkString(greeting.title, `${path}.title`, errors);
+  checkTextStyle(greeting.titleStyle, `${path}.titleStyle`, errors);
+  checkString(greeting.message, `${path}.message`, errors, { optional: true });
+  checkTextStyle(greeting.messageStyle, `${path}.messageStyle`, errors);
+  checkNumber(greeting.year, `${path}.year`, errors, { optional: true, min: 1900, max: 2999 });
+  checkBoolean(greeting.photoOnly, `${path}.photoOnly`, errors, { optional: true });
+  checkBoolean(greeting.wrapLongLines, `${path}.wrapLongLines`, errors, { optional: true });
+}
+
+function checkProjectState(value: unknown, path: string, errors: Errors) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkString(value.familyName, `${path}.familyName`, errors);
+  checkOneOf(value.layoutId, LAYOUT_TEMPLATES.map((template) => template.id), `${path}.layoutId`, errors);
+  checkOneOf(value.presetId, OUTPUT_PRESETS.map((preset) => preset.id), `${path}.presetId`, errors);
+  checkOneOf(value.themeId, COLLAGE_THEMES.map((theme) => theme.id), `${path}.themeId`, errors);
+  checkGreeting(value.greeting, `${path}.greeting`, errors);
+  checkBoolean(value.harmonizeColors, `${path}.harmonizeColors`, errors);
+
+  if (!Array.isArray(value.photos)) {
+    errors.push(`${path}.photos must be an array`);
+  } else {
+    value.photos.forEach((photo, index) => checkPhoto(photo, `${path}.photos[${index}]`, errors));
+  }
+
+  if (!Array.isArray(value.layout)) {
+    errors.push(`${path}.layout must be an array`);
+    return;
+  }
+  // One entry per slot of the layout template
+  if (typeof value.layoutId === 'string' && LAYOUT_TEMPLATES.some((template) => template.id === value.layoutId)) {
+    const slotCount = getLayoutTemplate(value.layoutId).slots.length;
+    if (value.layout.length !== slotCount) {
+      errors.push(`${path}.layout must have ${slotCount} entries for layout "${value.layoutId}" (got ${value.layout.length})`);
+    }
+  }
+  value.layout.forEach((slot, index) => {
+    if (slot === null) return;
+    const slotPath = `${path}.layout[${index}]`;
+    checkPhoto(slot, slotPath, errors);
+    if (isObject(slot)) {
+      if (slot.crop !== undefined) checkCrop(slot.crop, `${slotPath}.crop`, errors);
+      if (slot.adjustments !== undefined) checkAdjustments(slot.adjustments, `${slotPath}.adjustments`, errors);
+    }
+  });
+}
+
+/**
+ * Reads and validates a project file
+ * @param text - File contents
+ * @returns The project name and editor state, or every problem found (e.g. "project.layout[2].crop.zoom must be...")
+ */
+export function parseProjectFile(text: string): ProjectFileResult {
+  if (new TextEncoder().encode(text).length > MAX_PROJECT_FILE_BYTES) {
+    return { ok: false, errors: [`The file is larger than ${MAX_PROJECT_FILE_BYTES / 1024} KB, too large for a collage project`] };
+  }
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!isObject(file) || file.format !== PROJECT_FILE_FORMAT) {
+    return { ok: false, errors: ['The file is not a collage project (missing "format": "family-collage-project")'] };
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    return { ok: false, errors: ['version must be a positive whole number'] };
+  }
+  if (file.version > PROJECT_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [`The file was made by a newer version of the app (version ${file.version}); please update and try again`],
+    };
+  }
+
+  const errors: Errors = [];
+  checkString(file.name, 'name', errors, { nonEmpty: true });
+  checkProjectState(file.project, 'project', errors);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // Validated above; copy only the known fields so stray keys don't end up in saved projects and share links
+  const project = file.project as ProjectState;
+  const photo = ({ publicId, url, width, height, fileName, uploadedAt, takenAt, faces }: ProjectPhoto): ProjectPhoto => ({
+    publicId,
+    url,
+    width,
+    height,
+    fileName,
+    uploadedAt,
+    takenAt,
+    faces,
+  });
+  const crop = ({ gravity, focalX, focalY, zoom, rotation, flipHorizontal, flipVertical }: PhotoCrop): PhotoCrop => ({
+    gravity,
+    focalX,
+    focalY,
+    zoom,
+    rotation,
+    flipHorizontal,
+    flipVertical,
+  });
+  const adjustments = ({ filter, brightness, contrast, saturation, autoImprove }: PhotoAdjustments): PhotoAdjustments => ({
+    filter,
+    brightness,
+    contrast,
+    saturation,
+    autoImprove,
+  });
+  const textStyle = (style: TextStyle | undefined): TextStyle | undefined =>
+    style && { fontFamily: style.fontFamily, fontSize: style.fontSize, color: style.color };
+  const { greeting } = project;
+  return {
+    ok: true,
+    name: (file.name as string).trim(),
+    state: {
+      familyName: project.familyName,
+      photos: project.photos.map(photo),
+      layout: project.layout.map((slot: PlacedProjectPhoto | null) =>
+        slot
+          ? {
+              ...photo(slot),
+              crop: slot.crop && crop(slot.crop),
+              adjustments: slot.adjustments && adjustments(slot.adjustments),
+            }
+          : null
+      ),
+      layoutId: project.layoutId,
+      presetId: project.presetId,
+      themeId: project.themeId,
+      greeting: {
+        title: greeting.title,
+        titleStyle: textStyle(greeting.titleStyle),
+        message: greeting.message,
+        messageStyle: textStyle(greeting.messageStyle),
+        year: greeting.year,
+        photoOnly: greeting.photoOnly,
+        wrapLongLines: greeting.wrapLongLines,
+      },
+      harmonizeColors: project.harmonizeColors,
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import type { PhotoAdjustments } from './adjustments';
+import type { FaceRegion } from './arrange';
+import type { CollageOptions } from './collage';
+import type { PhotoCrop } from './crop';
+import type { Greeting } from './greeting';
+
+/**
+ * Saved collage projects, kept in localStorage so a refresh or closed tab doesn't lose the work
+ * Only photo references are stored (public IDs and URLs); the images themselves stay in Cloudinary.
+ */
+
+// Bump when the stored shape changes, and add a step to migrateStore
+export const PROJECT_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'family-collage-projects';
+
+export type ProjectPhoto = {
+  publicId: string;
+  url: string;
+  width?: number;
+  height?: number;
+  /** Original file name, e.g. "IMG_2041.jpg" */
+  fileName?: string;
+  /** ISO timestamp of the upload */
+  uploadedAt?: string;
+  /** ISO timestamp from the photo's EXIF data */
+  takenAt?: string;
+  /** Faces detected at upload, used by auto-arrange */
+  faces?: FaceRegion[];
+};
+
+export type PlacedProjectPhoto = ProjectPhoto & {
+  crop?: PhotoCrop;
+  adjustments?: PhotoAdjustments;
+};
+
+/**
+ * Everything needed to reopen the editor where it was left
+ */
+export type ProjectState = {
+  familyName: string;
+  /** Photo library */
+  photos: ProjectPhoto[];
+  /** Photos indexed by layout slot; null for empty slots */
+  layout: Array<PlacedProjectPhoto | null>;
+  layoutId: string;
+  presetId: string;
+  themeId: string;
+  greeting: Greeting;
+  harmonizeColors: boolean;
+};
+
+export type SavedProject = {
+  id: string;
+  name: string;
+  /** ISO timestamp of the last save */
+  updatedAt: string;
+  state: ProjectState;
+};
+
+export type ProjectStore = {
+  version: number;
+  /** Project the editor had open last */
+  currentProjectId: string | null;
+  projects: SavedProject[];
+};
+
+const EMPTY_STORE: ProjectStore = {
+  version: PROJECT_SCHEMA_VERSION,
+  currentProjectId: null,
+  projects: [],
+};
+
+/**
+ * Brings a stored value up to the current schema version
+ * @returns The store, or null if it is unreadable or from a newer version of the app
+ */
+function migrateStore(value: unknown): ProjectStore | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const store = value as Partial<ProjectStore>;
+  if (store.version !== PROJECT_SCHEMA_VERSION || !Array.isArray(store.projects)) {
+    return null;
+  }
+  return {
+    version: PROJECT_SCHEMA_VERSION,
+    currentProjectId: typeof store.currentProjectId === 'string' ? store.currentProjectId : null,
+    // Skip entries that were damaged (e.g. edited by hand) rather than losing every project
+    projects: store.projects.filter(
+      (project): project is SavedProject =>
+        !!project &&
+        typeof project.id === 'string' &&
+        typeof project.name === 'string' &&
+        !!project.state &&
+        Array.isArray(project.state.photos) &&
+        Array.isArray(project.state.layout)
+    ),
+  };
+}
+
+/**
+ * Reads the saved projects
+ * @returns Saved projects, or an empty store if nothing (readable) was saved
+ */
+export function loadProjectStore(): ProjectStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return EMPTY_STORE;
+    }
+    const store = migrateStore(JSON.parse(raw));
+    if (!store) {
+      console.warn('Ignoring saved projects with an unsupported format');
+      return EMPTY_STORE;
+    }
+    return store;
+  } catch (error) {
+    console.error('Failed to load saved projects:', error);
+    return EMPTY_STORE;
+  }
+}
+
+/**
+ * Writes the saved projects
+ * @param store - Projects to save
+ * @returns False if the browser refused (storage full or disabled)
+ */
+export function saveProjectStore(store: ProjectStore): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    return true;
+  } catch (error) {
+    console.error('Failed to save projects:', error);
+    return false;
+  }
+}
+
+function createProjectId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Collage options of a project, as passed to buildCollageUrl
+ * @param state - Editor state
+ */
+export function getProjectCollageOptions(state: ProjectState): CollageOptions {
+  return {
+    layoutId: state.layoutId,
+    presetId: state.presetId,
+    themeId: state.themeId,
+    greeting: state.greeting,
+    harmonizeColors: state.harmonizeColors,
+  };
+}
+
+/**
+ * Creates a new project
+ * @param name - Project name, e.g. "Smith 2025"
+ * @param state - Editor state
+ * @returns Project with a fresh id
+ */
+export function createProject(name: string, state: ProjectState): SavedProject {
+  return { id: createProjectId(), name, updatedAt: new Date().toISOString(), state };
+}
+
+/**
+ * Adds a project, or replaces the saved project with the same id
+ * @param store - Saved projects
+ * @param project - Project to save
+ * @returns Updated store, with the project first (most recently saved)
+ */
+export function upsertProject(store: ProjectStore, project: SavedProject): ProjectStore {
+  return {
+    ...store,
+    projects: [
+      { ...project, updatedAt: new Date().toISOString() },
+      ...store.projects.filter((saved) => saved.id !== project.id),
+    ],
+  };
+}
+
+/**
+ * Copies a project under a new id
+ * @param store - Saved projects
+ * @param id - Project to copy
+ * @returns Updated store and the copy, or null if the project does not exist
+ */
+export function duplicateProject(store: ProjectStore, id: string): { store: ProjectStore; project: SavedProject } | null {
+  const original = store.projects.find((project) => project.id === id);
+  if (!original) {
+    return null;
+  }
+  const project = createProject(`${original.name} (copy)`, structuredClone(original.state));
+  return { store: upsertProject(store, project), project };
+}
+
+/**
+ * Removes a project
+ * @param store - Saved projects
+ * @param id - Project to remove
+ * @returns Updated store; the current project is cleared if it was the one removed
+ */
+export function deleteProject(store: ProjectStore, id: string): ProjectStore {
+  return {
+    ...store,
+    currentProjectId: store.currentProjectId === id ? null : store.currentProjectId,
+    projects: store.projects.filter((project) => project.id !== id),
+  };
+}
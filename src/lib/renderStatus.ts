@@ -0,0 +1,52 @@
+/**
+ * Tracks whether a rendered collage actually loaded
+ * Cloudinary renders the collage when its URL is first requested, so a broken transformation only shows up
+ * as a failed image; the reason is in the x-cld-error response header.
+ */
+
+export type RenderStatus =
+  | { state: 'idle' }
+  | { state: 'loading' }
+  | { state: 'ready' }
+  | { state: 'error'; reason: string };
+
+/** Wait after the last keystroke in the name or greeting before asking Cloudinary for a new render */
+export const RENDER_DEBOUNCE_MS = 600;
+
+/**
+ * Finds out why a rendered image failed to load
+ * The image request itself gives no details, so the URL is requested again to read the response.
+ * @param url - Rendered image URL
+ * @returns Cloudinary's x-cld-error reason (e.g. "Resource not found - holiday-assets/white-pixel"),
+ *   or a description of the HTTP status when there is none
+ */
+export async function getRenderError(url: string): Promise<string> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    const reason = response.headers.get('x-cld-error');
+    if (reason) {
+      return reason;
+    }
+    return response.ok
+      ? 'The image was received but could not be displayed'
+      : `The render failed (HTTP ${response.status})`;
+  } catch {
+    return 'Could not reach the image server. Check your connection and try again.';
+  }
+}
+
+/**
+ * Loads a rendered collage, so it can replace the one on screen only once it is ready
+ * @param url - Rendered image URL
+ * @returns Resolves when the image has loaded; rejects with the reason it failed (see getRenderError)
+ */
+export function loadRenderedImage(url: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve();
+    image.onerror = () => {
+      getRenderError(url).then((reason) => reject(new Error(reason)));
+    };
+    image.src = url;
+  });
+}
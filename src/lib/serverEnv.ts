@@ -0,0 +1,10 @@
+/**
+ * Server-only settings (API secret, storage paths)
+ * Astro inlines import.meta.env at build time, so a production server reads these from its own environment;
+ * import.meta.env still covers `astro dev`, which loads them from .env.
+ * @param name - Variable name, e.g. "CLOUDINARY_API_SECRET"
+ * @returns The value, or undefined when it is not set
+ */
+export function getServerEnv(name: string): string | undefined {
+  return process.env[name] || import.meta.env[name] || undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getDeliverySignature, signDeliveryUrl, verifyDeliveryUrl } from './signing';
+
+const BASE = 'https://res.cloudinary.com/demo/image/upload';
+
+describe('getDeliverySignature', () => {
+  // Known answers from Cloudinary's SDK tests (API secret "b")
+  it('matches the signature Cloudinary computes', () => {
+    expect(getDeliverySignature('c_crop,h_20,w_10/image.jpg', 'b')).toBe('s--Ai4Znfl3--');
+    expect(getDeliverySignature('image.jpg', 'b')).toBe('s----SjmNDA--');
+  });
+
+  it('leaves the version out, as Cloudinary does', () => {
+    expect(getDeliverySignature('c_crop,h_20,w_10/v1234/image.jpg', 'b')).toBe('s--Ai4Znfl3--');
+    expect(getDeliverySignature('v1234/image.jpg', 'b')).toBe('s----SjmNDA--');
+  });
+
+  it('signs text layers fully decoded', () => {
+    expect(getDeliverySignature('l_text:Arial_40:O%27Brien%252C%20Jr./fl_layer_apply/bg', 'b')).toBe(
+      getDeliverySignature("l_text:Arial_40:O'Brien, Jr./fl_layer_apply/bg", 'b')
+    );
+  });
+});
+
+describe('signDeliveryUrl', () => {
+  it('adds the signature before the transformations, replacing an old one', () => {
+    expect(signDeliveryUrl(`${BASE}/c_crop,h_20,w_10/v1234/image.jpg`, 'b')).toBe(
+      `${BASE}/s--Ai4Znfl3--/c_crop,h_20,w_10/v1234/image.jpg`
+    );
+    expect(signDeliveryUrl(`${BASE}/s--AAAAAAAA--/c_crop,h_20,w_10/image.jpg`, 'b')).toBe(
+      `${BASE}/s--Ai4Znfl3--/c_crop,h_20,w_10/image.jpg`
+    );
+  });
+
+  it('leaves other URLs unchanged', () => {
+    expect(signDeliveryUrl('https://example.com/image.jpg', 'b')).toBe('https://example.com/image.jpg');
+  });
+});
+
+describe('verifyDeliveryUrl', () => {
+  it('accepts a signed URL, with or without a version', () => {
+    expect(verifyDeliveryUrl(`${BASE}/s--Ai4Znfl3--/c_crop,h_20,w_10/image.jpg`, 'b')).toEqual({ ok: true });
+    expect(verifyDeliveryUrl(`${BASE}/s--Ai4Znfl3--/c_crop,h_20,w_10/v1234/image.jpg`, 'b')).toEqual({ ok: true });
+  });
+
+  it('refuses a URL whose transformation was changed after signing', () => {
+    expect(verifyDeliveryUrl(`${BASE}/s--Ai4Znfl3--/c_crop,h_20,w_11/image.jpg`, 'b')).toEqual({
+      ok: false,
+      reason: 'Invalid signature',
+    });
+  });
+
+  it('refuses a URL signed with another secret', () => {
+    expect(verifyDeliveryUrl(signDeliveryUrl(`${BASE}/c_crop,h_20,w_10/image.jpg`, 'a'), 'b')).toMatchObject({ ok: false });
+  });
+
+  it('refuses a URL without a signature', () => {
+    expect(verifyDeliveryUrl(`${BASE}/c_crop,h_20,w_10/image.jpg`, 'b')).toEqual({ ok: false, reason: 'Missing signature' });
+  });
+
+  it('refuses URLs that are not Cloudinary image URLs', () => {
+    expect(verifyDeliveryUrl('https://example.com/s--Ai4Znfl3--/image.jpg', 'b')).toEqual({
+      ok: false,
+      reason: 'Not a Cloudinary image delivery URL',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Signed delivery URLs and upload signatures
+ * With "Strict transformations" enabled on the Cloudinary account, only transformation URLs signed with the API secret
+ * are rendered, so a shared link can't be rewritten to overlay other text or images on our backgrounds.
+ * Uploads are signed the same way, so the browser needs no unsigned upload preset (see /api/upload-signature).
+ * Server-only: the API secret must never reach the browser.
+ */
+
+export type SignatureCheck = { ok: true } | { ok: false; reason: string };
+
+// Signature length Cloudinary checks by default (the first 8 characters of the URL-safe base64 SHA-1)
+const SIGNATURE_LENGTH = 8;
+
+const DELIVERY_URL = /^(https?:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/)(?:(s--[A-Za-z0-9_-]+--)\/)?(.+)$/;
+
+// Cloudinary signs the path fully URL-decoded (text layers are escaped in the URL), as its SDKs do
+function decodePath(path: string): string {
+  let decoded = path;
+  for (let i = 0; i < 10; i++) {
+    let next: string;
+    try {
+      next = decodeURIComponent(decoded);
+    } catch {
+      break;
+    }
+    if (next === decoded) break;
+    decoded = next;
+  }
+  return decoded;
+}
+
+// Cloudinary leaves the version (v<digits>, before the public ID) out of the signature; transformation components
+// always have an underscore, so the first component of that shape is the version
+function stripVersion(path: string): string {
+  return path.replace(/(^|\/)v\d+\//, '$1');
+}
+
+/**
+ * Computes the signature component for a delivery path
+ * @param path - Everything after /image/upload/: transformations, optional version and public ID
+ * @param apiSecret - Cloudinary API secret
+ * @returns e.g. "s--Ai2fQx1_--"
+ */
+export function getDeliverySignature(path: string, apiSecret: string): string {
+  const digest = createHash('sha1').update(decodePath(stripVersion(path)) + apiSecret).digest('base64url');
+  return `s--${digest.slice(0, SIGNATURE_LENGTH)}--`;
+}
+
+/**
+ * Signs a delivery URL, replacing any signature it already has
+ * @param url - Cloudinary delivery URL
+ * @param apiSecret - Cloudinary API secret
+ * @returns Signed URL, or the URL unchanged if it is not a Cloudinary image delivery URL
+ */
+export function signDeliveryUrl(url: string, apiSecret: string): string {
+  const match = DELIVERY_URL.exec(url);
+  if (!match) {
+    return url;
+  }
+  const [, prefix, , path] = match;
+  return `${prefix}${getDeliverySignature(path, apiSecret)}/${path}`;
+}
+
+/**
+ * Checks a delivery URL the way Cloudinary does with strict transformations on
+ * This is the offline test double for the signing endpoint: signatures can be verified without a Cloudinary account.
+ * @param url - Cloudinary delivery URL
+ * @param apiSecret - Cloudinary API secret
+ * @returns ok, or the reason Cloudinary would refuse the URL
+ */
+export function verifyDeliveryUrl(url: string, apiSecret: string): SignatureCheck {
+  const match = DELIVERY_URL.exec(url.trim());
+  if (!match) {
+    return { ok: false, reason: 'Not a Cloudinary image delivery URL' };
+  }
+  const [, , signature, path] = match;
+  if (!signature) {
+    return { ok: false, reason: 'Missing signature' };
+  }
+  if (signature !== getDeliverySignature(path, apiSecret)) {
+    return { ok: false, reason: 'Invalid signature' };
+  }
+  return { ok: true };
+}
+
+/**
+ * Signs upload API parameters
+ * @param params - Parameters sent with the file (not file, api_key or signature); arrays are joined with commas
+ * @param apiSecret - Cloudinary API secret
+ * @returns Hex SHA-1 signature of the sorted parameters
+ */
+export function signUploadParams(
+  params: Record<string, string | number | boolean | string[]>,
+  apiSecret: string
+): string {
+  const toSign = Object.keys(params)
+    .filter((key) => params[key] !== '' && params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map((key) => {
+      const value = params[key];
+      return `${key}=${Array.isArray(value) ? value.join(',') : value}`;
+    })
+    .join('&');
+  return createHash('sha1').update(toSign + apiSecret).digest('hex');
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { decodeTextLayerText, encodeTextLayerText, resolveTextLayerFont } from './textLayer';
+
+describe('encodeTextLayerText', () => {
+  it('double-escapes commas and encodes apostrophes and accents once', () => {
+    expect(encodeTextLayerText("O'Brien-Müller, Jr.")).toBe('O%27Brien-M%C3%BCller%252C%20Jr.');
+  });
+
+  it('double-escapes percent signs and slashes', () => {
+    expect(encodeTextLayerText('100% Smith/Jones')).toBe('100%2525%20Smith%252FJones');
+  });
+
+  it('leaves no comma or slash that Cloudinary could split on after decoding once', () => {
+    const decodedOnce = decodeURIComponent(encodeTextLayerText('A, B / C %'));
+    expect(decodedOnce).not.toMatch(/[,/]/);
+  });
+});
+
+describe('decodeTextLayerText', () => {
+  it.each(["O'Brien-Müller, Jr.", '100% Smith/Jones', 'Smith, Jones & Co. 50%/50%', '김씨 가족', '🎄 The Smiths 🎅'])(
+    'reverses encodeTextLayerText for %s',
+    (text) => {
+      expect(decodeTextLayerText(encodeTextLayerText(text))).toBe(text);
+    }
+  );
+});
+
+describe('resolveTextLayerFont', () => {
+  it('keeps the requested font when it covers the script', () => {
+    expect(resolveTextLayerFont('Pacifico', "O'Brien-Müller, Jr.")).toBe('Pacifico');
+  });
+
+  it('falls back to a Korean font for Hangul names', () => {
+    expect(resolveTextLayerFont('Pacifico', '김씨 가족')).toBe('Noto Sans KR');
+    expect(resolveTextLayerFont('Arial', '김씨 가족')).toBe('Noto Sans KR');
+  });
+
+  it('prefers a Japanese font over a Chinese one when kana are present', () => {
+    expect(resolveTextLayerFont('Lobster', '山田さん')).toBe('Noto Sans JP');
+    expect(resolveTextLayerFont('Lobster', '王家')).toBe('Noto Sans SC');
+  });
+
+  it('does not change the font for emoji', () => {
+    expect(resolveTextLayerFont('Montserrat', '🎄 Smiths')).toBe('Montserrat');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Helpers for Cloudinary text layers (l_text:<font>_<size>:<text>)
+ *
+ * The text sits inside a URL path component that Cloudinary decodes once and then
+ * splits on commas (parameters) and slashes (components), so those characters and the
+ * percent sign itself must be escaped twice. Everything else is UTF-8 percent-encoded once,
+ * which covers accents, emoji and non-Latin scripts.
+ */
+
+type Script = 'latin' | 'cyrillic' | 'greek' | 'hangul' | 'japanese' | 'han' | 'arabic' | 'hebrew' | 'thai';
+
+// Scripts each font can render; fonts not listed are assumed to cover Latin only
+const FONT_SCRIPTS: Record<string, Script[]> = {
+  Pacifico: ['latin', 'cyrillic'],
+  Lobster: ['latin', 'cyrillic'],
+  Montserrat: ['latin', 'cyrillic'],
+  Merriweather: ['latin', 'cyrillic'],
+  Arial: ['latin', 'cyrillic', 'greek', 'arabic', 'hebrew'],
+};
+
+// Font used when the requested font lacks the glyphs for a script
+const SCRIPT_FALLBACK_FONTS: Record<Script, string> = {
+  latin: 'Arial',
+  cyrillic: 'Arial',
+  greek: 'Arial',
+  hangul: 'Noto Sans KR',
+  japanese: 'Noto Sans JP',
+  han: 'Noto Sans SC',
+  arabic: 'Noto Sans Arabic',
+  hebrew: 'Noto Sans Hebrew',
+  thai: 'Noto Sans Thai',
+};
+
+// Checked in order: kana must win over han so Japanese names (which mix both) get a Japanese font
+const SCRIPT_PATTERNS: Array<[Script, RegExp]> = [
+  ['hangul', /\p{Script=Hangul}/u],
+  ['japanese', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['han', /\p{Script=Han}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+];
+
+/**
+ * Encodes text for use inside a Cloudinary text layer
+ * @param text - Raw text, e.g. "O'Brien-Müller, Jr."
+ * @returns Text safe to embed after `l_text:<font>_<size>:`
+ */
+export function encodeTextLayerText(text: string): string {
+  return (
+    encodeURIComponent(text)
+      // Double-escape percent signs, commas and slashes: %25 -> %2525, %2C -> %252C, %2F -> %252F
+      .replace(/%(25|2C|2F)/g, '%25$1')
+      // encodeURIComponent leaves these alone, but they break some URL parsers and chat unfurlers
+      .replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  );
+}
+
+/**
+ * Reverses encodeTextLayerText
+ * @param encoded - Encoded text layer text
+ * @returns Original text
+ */
+export function decodeTextLayerText(encoded: string): string {
+  return decodeURIComponent(decodeURIComponent(encoded));
+}
+
+/**
+ * Encodes a font family for use in a Cloudinary text layer (spaces become %20)
+ * @param fontFamily - Font family name, e.g. "Noto Sans KR"
+ * @returns Encoded font family
+ */
+export function encodeTextLayerFont(fontFamily: string): string {
+  return encodeURIComponent(fontFamily);
+}
+
+/**
+ * Detects the non-Latin script a line of text needs glyphs for
+ * @param text - Line of text
+ * @returns First matching script, or 'latin' when only Latin (or script-neutral) characters are present
+ */
+function detectScript(text: string): Script {
+  const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'latin';
+}
+
+/**
+ * Picks a font that can render the text, falling back when the requested font lacks the glyphs
+ * Emoji are left to Cloudinary's per-glyph fallback and never trigger a font change.
+ * @param fontFamily - Requested font family
+ * @param text - Line of text
+ * @returns The requested font if it covers the text's script, otherwise a fallback font
+ */
+export function resolveTextLayerFont(fontFamily: string, text: string): string {
+  const script = detectScript(text);
+  const supported = FONT_SCRIPTS[fontFamily] || ['latin'];
+  return supported.includes(script) ? fontFamily : SCRIPT_FALLBACK_FONTS[script];
+}
+
+// Average glyph advance as a fraction of the font size, for proportional Latin-style glyphs
+const FONT_ADVANCE_RATIOS: Record<string, number> = {
+  Pacifico: 0.56,
+  Lobster: 0.46,
+  Montserrat: 0.62,
+  Merriweather: 0.6,
+  Arial: 0.54,
+};
+const DEFAULT_ADVANCE_RATIO = 0.6;
+
+// Full-width glyphs (CJK, Hangul, kana, emoji) take roughly one em regardless of font
+const FULL_WIDTH_PATTERN = /[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}\p{Extended_Pictographic}]/u;
+
+/**
+ * Estimates the rendered width of a line of text
+ * This is a heuristic (no font metrics are available when building URLs), tuned to err slightly wide.
+ * @param text - Line of text
+ * @param fontFamily - Font family
+ * @param fontSize - Font size in pixels
+ * @returns Approximate width in pixels
+ */
+export function estimateTextWidth(text: string, fontFamily: string, fontSize: number): number {
+  const advance = FONT_ADVANCE_RATIOS[fontFamily] || DEFAULT_ADVANCE_RATIO;
+  let ems = 0;
+  for (const char of Array.from(text)) {
+    if (char === ' ') {
+      ems += 0.3;
+    } else if (FULL_WIDTH_PATTERN.test(char)) {
+      ems += 1;
+    } else if (/[\p{M}\u200D\uFE0F]/u.test(char)) {
+      // Combining marks, zero-width joiners and variation selectors take no space of their own
+    } else {
+      ems += advance;
+    }
+  }
+  return ems * fontSize;
+}
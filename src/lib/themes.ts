@@ -0,0 +1,104 @@
+/**
+ * Visual theme for a collage
+ * Colors are 6-digit hex strings without '#', as used by Cloudinary's `rgb:` syntax.
+ * Sizes are in pixels on the 1600x900 reference canvas and are scaled with the output preset.
+ */
+export type CollageTheme = {
+  id: string;
+  name: string;
+  /** Photo border color */
+  borderColor: string;
+  /** Photo border width; 0 disables the border */
+  borderWidth: number;
+  /** Photo corner radius; 0 keeps square corners */
+  cornerRadius: number;
+  font: {
+    /** Font family name understood by Cloudinary text layers */
+    family: string;
+    size: number;
+    color: string;
+  };
+  ribbon: {
+    /** Public ID of the small white image stretched into the ribbon */
+    publicId: string;
+    color: string;
+    /** Opacity percentage (0-100) */
+    opacity: number;
+  };
+  /** Public ID of the background image the collage is drawn on */
+  backgroundId: string;
+  /** Color drawn instead of the background image where it isn't available (local rendering) */
+  backgroundColor: string;
+};
+
+export const COLLAGE_THEMES: CollageTheme[] = [
+  {
+    id: 'classic-gold',
+    name: 'Classic Gold',
+    borderColor: 'FFD700',
+    borderWidth: 8,
+    cornerRadius: 25,
+    font: { family: 'Pacifico', size: 70, color: '000000' },
+    ribbon: { publicId: 'holiday-assets/white-pixel', color: 'FFFFFF', opacity: 70 },
+    backgroundId: 'holiday-assets/collage-bg',
+    backgroundColor: '14532D',
+  },
+  {
+    id: 'winter-silver',
+    name: 'Winter Silver',
+    borderColor: 'C0C0C0',
+    borderWidth: 8,
+    cornerRadius: 25,
+    font: { family: 'Montserrat', size: 64, color: '1E3A5F' },
+    ribbon: { publicId: 'holiday-assets/white-pixel', color: 'FFFFFF', opacity: 80 },
+    backgroundId: 'holiday-assets/winter-silver-bg',
+    backgroundColor: 'DCE6F0',
+  },
+  {
+    id: 'hanukkah-blue',
+    name: 'Hanukkah Blue',
+    borderColor: '1D4ED8',
+    borderWidth: 8,
+    cornerRadius: 20,
+    font: { family: 'Merriweather', size: 64, color: '1D4ED8' },
+    ribbon: { publicId: 'holiday-assets/white-pixel', color: 'FFFFFF', opacity: 85 },
+    backgroundId: 'holiday-assets/hanukkah-blue-bg',
+    backgroundColor: 'E8EEF9',
+  },
+  {
+    id: 'lunar-new-year-red',
+    name: 'Lunar New Year Red',
+    borderColor: 'D4AF37',
+    borderWidth: 8,
+    cornerRadius: 25,
+    font: { family: 'Lobster', size: 70, color: 'FFD700' },
+    ribbon: { publicId: 'holiday-assets/white-pixel', color: 'C8102E', opacity: 90 },
+    backgroundId: 'holiday-assets/lunar-new-year-bg',
+    backgroundColor: '7F1D1D',
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    borderColor: 'FFFFFF',
+    borderWidth: 0,
+    cornerRadius: 0,
+    font: { family: 'Arial', size: 56, color: '333333' },
+    ribbon: { publicId: 'holiday-assets/white-pixel', color: 'FFFFFF', opacity: 90 },
+    backgroundId: 'holiday-assets/minimal-bg',
+    backgroundColor: 'F5F5F5',
+  },
+];
+
+export const DEFAULT_THEME_ID = 'classic-gold';
+
+/**
+ * Looks up a theme by id, falling back to the default theme
+ * @param id - Theme id
+ * @returns Matching theme, or the default theme if the id is unknown
+ */
+export function getCollageTheme(id: string | undefined): CollageTheme {
+  return (
+    COLLAGE_THEMES.find((theme) => theme.id === id) ||
+    COLLAGE_THEMES.find((theme) => theme.id === DEFAULT_THEME_ID)!
+  );
+}
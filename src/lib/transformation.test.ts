@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADJUSTMENTS } from './adjustments';
+import { buildCollageUrl, type CollagePhoto } from './collage';
+import { DEFAULT_CROP } from './crop';
+import { signDeliveryUrl } from './signing';
+import { buildDeliveryUrl, parseDeliveryUrl, parseTransformation, serializeTransformation } from './transformation';
+
+const photos: Array<CollagePhoto | null> = [
+  { publicId: 'family/tree', width: 4000, height: 3000 },
+  {
+    publicId: 'family/kids',
+    width: 3000,
+    height: 4000,
+    crop: { ...DEFAULT_CROP, gravity: 'manual', focalX: 0.3, focalY: 0.7, zoom: 1.5, rotation: 90, flipHorizontal: true },
+    adjustments: { ...DEFAULT_ADJUSTMENTS, filter: 'sepia', brightness: 20, contrast: -10, autoImprove: true },
+  },
+  null,
+  { publicId: 'family/dog', width: 2000, height: 2000, crop: { ...DEFAULT_CROP, gravity: 'faces' } },
+  null,
+];
+
+// Collage URLs as the app builds them, with names that need escaping in their text layers
+const collageUrls = [
+  buildCollageUrl('demo', photos, 'The Smiths', {}),
+  buildCollageUrl('demo', photos, "O'Brien-Müller, Jr.", { themeId: 'winter-silver', presetId: 'print-5x7' }),
+  buildCollageUrl('demo', photos, '100% Smith/Jones', {
+    greeting: { title: '{name}, {year}', message: 'Love, Anna & Ben 🎄', year: 2025 },
+  }),
+  buildCollageUrl('demo', photos, '김씨 가족', { layoutId: 'hero-thumbnails', presetId: 'instagram-story' }),
+];
+
+describe('serializeTransformation', () => {
+  it.each([
+    'c_fill,w_1600,h_900,q_auto,f_auto',
+    'c_fill,g_auto,w_473,h_680',
+    'c_crop,g_north_west,w_1200,h_900,x_300,y_120',
+    'r_25,bo_8px_solid_rgb:FFD700',
+    'fl_layer_apply,g_north_west,x_50,y_0',
+    'a_90',
+    'a_hflip',
+    'e_sepia:50',
+    'e_improve',
+    'o_70',
+    'co_rgb:FFD700',
+  ])('is the inverse of parseTransformation for %s', (component) => {
+    expect(serializeTransformation(parseTransformation(component))).toBe(component);
+  });
+});
+
+describe('buildDeliveryUrl', () => {
+  it.each(collageUrls)('is the inverse of parseDeliveryUrl for %s', (url) => {
+    expect(url).not.toBe('');
+    expect(buildDeliveryUrl(parseDeliveryUrl(url)!)).toBe(url);
+  });
+
+  it.each(collageUrls)('keeps the signature of a signed URL: %s', (url) => {
+    const signed = signDeliveryUrl(url, 'secret');
+    const delivery = parseDeliveryUrl(signed)!;
+    expect(delivery.signature).toMatch(/^s--[A-Za-z0-9_-]{8}--$/);
+    expect(buildDeliveryUrl(delivery)).toBe(signed);
+  });
+
+  it('keeps the version of a versioned URL', () => {
+    const url = 'https://res.cloudinary.com/demo/image/upload/c_fill,w_1600,h_900/v1712345678/holiday-assets/collage-bg';
+    const delivery = parseDeliveryUrl(url)!;
+    expect(delivery.version).toBe(1712345678);
+    expect(delivery.publicId).toBe('holiday-assets/collage-bg');
+    expect(buildDeliveryUrl(delivery)).toBe(url);
+  });
+
+  it('keeps the signature and version of a signed, versioned URL', () => {
+    const url = signDeliveryUrl(
+      'https://res.cloudinary.com/demo/image/upload/l_family:kids/c_fill,w_200,h_200/fl_layer_apply,g_north_west,x_10,y_10/v3/holiday-assets/collage-bg',
+      'secret'
+    );
+    expect(buildDeliveryUrl(parseDeliveryUrl(url)!)).toBe(url);
+  });
+
+  it('decodes escaped text layers and encodes them the same way again', () => {
+    const url = collageUrls[1];
+    const delivery = parseDeliveryUrl(url)!;
+    const texts = delivery.steps.flatMap((step) =>
+      step.kind === 'overlay' && step.overlay.layer.kind === 'text' ? [step.overlay.layer.text] : []
+    );
+    expect(texts.some((text) => text.includes("O'Brien-Müller, Jr."))).toBe(true);
+    expect(url).toContain('O%27Brien-M%C3%BCller%252C%20Jr.');
+    expect(buildDeliveryUrl(delivery)).toBe(url);
+  });
+});
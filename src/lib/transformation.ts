@@ -0,0 +1,390 @@
+import { decodeTextLayerText, encodeTextLayerFont, encodeTextLayerText } from './textLayer';
+
+/**
+ * Typed model of Cloudinary delivery URLs
+ *
+ * A URL is /<cloud>/image/upload/<step>/<step>/.../<public_id>, where every step is either
+ * a plain transformation component (e.g. `c_fill,w_1600,h_900`) or an overlay:
+ * `l_<layer>/<transformations...>/fl_layer_apply,<placement>`.
+ * buildDeliveryUrl and parseDeliveryUrl are inverses for every URL this app produces.
+ */
+
+export type CropMode = 'fill' | 'crop' | 'scale' | 'limit' | 'fit' | 'thumb';
+
+/**
+ * One transformation component: the parameters between two slashes
+ * Parameters are always written in the same order (see PARAM_ORDER), so building is deterministic.
+ */
+export type Transformation = {
+  flags?: string[];
+  crop?: CropMode;
+  /** Gravity without the g_ prefix, e.g. 'north_west', 'faces' */
+  gravity?: string;
+  width?: number;
+  height?: number;
+  x?: number;
+  y?: number;
+  zoom?: number;
+  /** Degrees clockwise, or a flip */
+  angle?: number | 'hflip' | 'vflip';
+  /** Color without the rgb: prefix (6-digit hex) */
+  color?: string;
+  /** Effect name and optional value, e.g. { name: 'sepia', value: 50 } for e_sepia:50 */
+  effect?: { name: string; value?: number | string };
+  opacity?: number;
+  radius?: number;
+  /** Border, e.g. { width: 8, color: 'FFD700' } for bo_8px_solid_rgb:FFD700 */
+  border?: { width: number; color: string };
+  quality?: string;
+  format?: string;
+};
+
+export type ImageLayer = {
+  kind: 'image';
+  publicId: string;
+};
+
+export type TextLayer = {
+  kind: 'text';
+  fontFamily: string;
+  fontSize: number;
+  text: string;
+};
+
+export type Overlay = {
+  layer: ImageLayer | TextLayer;
+  /** Parameters in the same component as the layer (e.g. text color) */
+  layerParams?: Transformation;
+  /** Components applied to the layer before it is placed */
+  transformations: Transformation[];
+  /** Placement, written together with fl_layer_apply */
+  apply: Transformation;
+};
+
+export type Step =
+  | { kind: 'transformation'; transformation: Transformation }
+  | { kind: 'overlay'; overlay: Overlay };
+
+export type DeliveryUrl = {
+  cloudName: string;
+  /** Signature component of a signed URL, e.g. 's--Ai2fQx1_--' (see signing.ts); any edit invalidates it */
+  signature?: string;
+  steps: Step[];
+  /** Asset version, written as v<version> before the public ID */
+  version?: number;
+  /** e.g. 'holiday-assets/collage-bg' */
+  publicId: string;
+};
+
+const PARAM_ORDER: Array<keyof Transformation> = [
+  'flags',
+  'crop',
+  'gravity',
+  'width',
+  'height',
+  'x',
+  'y',
+  'zoom',
+  'angle',
+  'color',
+  'effect',
+  'opacity',
+  'radius',
+  'border',
+  'quality',
+  'format',
+];
+
+/**
+ * Serializes a transformation component
+ * Zero values are written out (x_0 is a real position), undefined values are skipped.
+ * @param transformation - Transformation parameters
+ * @returns Component string, e.g. 'c_fill,g_auto,w_473,h_440'
+ */
+export function serializeTransformation(transformation: Transformation): string {
+  const params: string[] = [];
+  PARAM_ORDER.forEach((key) => {
+    const value = transformation[key];
+    if (value === undefined) {
+      return;
+    }
+    switch (key) {
+      case 'flags':
+        (value as string[]).forEach((flag) => params.push(`fl_${flag}`));
+        break;
+      case 'crop':
+        params.push(`c_${value}`);
+        break;
+      case 'gravity':
+        params.push(`g_${value}`);
+        break;
+      case 'width':
+        params.push(`w_${value}`);
+        break;
+      case 'height':
+        params.push(`h_${value}`);
+        break;
+      case 'x':
+        params.push(`x_${value}`);
+        break;
+      case 'y':
+        params.push(`y_${value}`);
+        break;
+      case 'zoom':
+        params.push(`z_${value}`);
+        break;
+      case 'angle':
+        params.push(`a_${value}`);
+        break;
+      case 'color':
+        params.push(`co_rgb:${value}`);
+        break;
+      case 'effect': {
+        const effect = value as NonNullable<Transformation['effect']>;
+        params.push(effect.value === undefined ? `e_${effect.name}` : `e_${effect.name}:${effect.value}`);
+        break;
+      }
+      case 'opacity':
+        params.push(`o_${value}`);
+        break;
+      case 'radius':
+        params.push(`r_${value}`);
+        break;
+      case 'border': {
+        const border = value as NonNullable<Transformation['border']>;
+        params.push(`bo_${border.width}px_solid_rgb:${border.color}`);
+        break;
+      }
+      case 'quality':
+        params.push(`q_${value}`);
+        break;
+      case 'format':
+        params.push(`f_${value}`);
+        break;
+    }
+  });
+  return params.join(',');
+}
+
+/**
+ * Parses a transformation component (the inverse of serializeTransformation)
+ * @param component - Component string, e.g. 'r_25,bo_8px_solid_rgb:FFD700'
+ * @returns Parsed transformation
+ * @throws Error if a parameter is not one this module understands
+ */
+export function parseTransformation(component: string): Transformation {
+  const transformation: Transformation = {};
+  component.split(',').forEach((param) => {
+    const separator = param.indexOf('_');
+    const key = param.slice(0, separator);
+    const value = param.slice(separator + 1);
+    switch (key) {
+      case 'fl':
+        transformation.flags = [...(transformation.flags || []), value];
+        break;
+      case 'c':
+        transformation.crop = value as CropMode;
+        break;
+      case 'g':
+        transformation.gravity = value;
+        break;
+      case 'w':
+        transformation.width = Number(value);
+        break;
+      case 'h':
+        transformation.height = Number(value);
+        break;
+      case 'x':
+        transformation.x = Number(value);
+        break;
+      case 'y':
+        transformation.y = Number(value);
+        break;
+      case 'z':
+        transformation.zoom = Number(value);
+        break;
+      case 'a':
+        transformation.angle = value === 'hflip' || value === 'vflip' ? value : Number(value);
+        break;
+      case 'co':
+        transformation.color = value.replace(/^rgb:/, '');
+        break;
+      case 'e': {
+        const [name, effectValue] = value.split(':');
+        transformation.effect = effectValue === undefined
+          ? { name }
+          : { name, value: /^-?\d+(\.\d+)?$/.test(effectValue) ? Number(effectValue) : effectValue };
+        break;
+      }
+      case 'o':
+        transformation.opacity = Number(value);
+        break;
+      case 'r':
+        transformation.radius = Number(value);
+        break;
+      case 'bo': {
+        const match = /^(\d+)px_solid_rgb:([0-9A-Fa-f]{6})$/.exec(value);
+        if (!match) {
+          throw new Error(`Unsupported border: ${param}`);
+        }
+        transformation.border = { width: Number(match[1]), color: match[2] };
+        break;
+      }
+      case 'q':
+        transformation.quality = value;
+        break;
+      case 'f':
+        transformation.format = value;
+        break;
+      default:
+        throw new Error(`Unsupported transformation parameter: ${param}`);
+    }
+  });
+  return transformation;
+}
+
+/**
+ * Serializes an overlay layer (the l_ parameter)
+ * Public ID slashes become colons; text is escaped for text layers (see textLayer.ts).
+ */
+function serializeLayer(layer: ImageLayer | TextLayer): string {
+  if (layer.kind === 'image') {
+    return `l_${layer.publicId.replace(/\//g, ':')}`;
+  }
+  return `l_text:${encodeTextLayerFont(layer.fontFamily)}_${layer.fontSize}:${encodeTextLayerText(layer.text)}`;
+}
+
+function parseLayer(param: string): ImageLayer | TextLayer {
+  const value = param.slice('l_'.length);
+  const text = /^text:(.+)_(\d+):(.*)$/.exec(value);
+  if (text) {
+    return {
+      kind: 'text',
+      fontFamily: decodeURIComponent(text[1]),
+      fontSize: Number(text[2]),
+      text: decodeTextLayerText(text[3]),
+    };
+  }
+  return { kind: 'image', publicId: value.replace(/:/g, '/') };
+}
+
+/**
+ * Serializes an overlay into its slash-separated components
+ * @param overlay - Overlay
+ * @returns e.g. 'l_family:photo1/c_fill,g_auto,w_473,h_680/fl_layer_apply,g_north_west,x_50,y_50'
+ */
+export function serializeOverlay(overlay: Overlay): string {
+  const layerComponent = [serializeLayer(overlay.layer)];
+  if (overlay.layerParams) {
+    layerComponent.push(serializeTransformation(overlay.layerParams));
+  }
+  const applyFlags = ['layer_apply', ...(overlay.apply.flags || [])];
+  return [
+    layerComponent.join(','),
+    ...overlay.transformations.map(serializeTransformation),
+    serializeTransformation({ ...overlay.apply, flags: applyFlags }),
+  ].join('/');
+}
+
+/**
+ * Builds a complete delivery URL
+ * @param delivery - Cloud name, signature, steps, version and base public ID
+ * @returns https://res.cloudinary.com/<cloud>/image/upload/[<signature>/]<steps>/[v<version>/]<public_id>
+ */
+export function buildDeliveryUrl(delivery: DeliveryUrl): string {
+  const components = [
+    ...(delivery.signature ? [delivery.signature] : []),
+    ...delivery.steps.map((step) =>
+      step.kind === 'overlay' ? serializeOverlay(step.overlay) : serializeTransformation(step.transformation)
+    ),
+    ...(delivery.version !== undefined ? [`v${delivery.version}`] : []),
+    delivery.publicId,
+  ];
+  return `https://res.cloudinary.com/${delivery.cloudName}/image/upload/${components.join('/')}`;
+}
+
+// A component is a transformation when every comma-separated parameter looks like key_value
+// (public ID folders such as "holiday-assets" never do)
+const TRANSFORMATION_PARAM = /^[a-z]{1,3}_/;
+
+// s--<signature>--, the first component of a signed delivery URL
+const SIGNATURE_COMPONENT = /^s--[A-Za-z0-9_-]+--$/;
+
+function isTransformationComponent(component: string): boolean {
+  return component.split(',').every((param) => TRANSFORMATION_PARAM.test(param));
+}
+
+/**
+ * Parses a delivery URL back into its structured form (the inverse of buildDeliveryUrl)
+ * @param url - Cloudinary delivery URL
+ * @returns Structured URL, or null if it is not an image upload URL this module can read
+ */
+export function parseDeliveryUrl(url: string): DeliveryUrl | null {
+  const match = /^https?:\/\/res\.cloudinary\.com\/([^/]+)\/image\/upload\/(.+)$/.exec(url.trim());
+  if (!match) {
+    return null;
+  }
+  const cloudName = match[1];
+  const components = match[2].split('/');
+  // A signed URL (see signing.ts) starts with its signature
+  const signature = SIGNATURE_COMPONENT.test(components[0]) ? components.shift() : undefined;
+
+  try {
+    const steps: Step[] = [];
+    let index = 0;
+    while (index < components.length && isTransformationComponent(components[index])) {
+      const component = components[index];
+      if (!component.startsWith('l_')) {
+        steps.push({ kind: 'transformation', transformation: parseTransformation(component) });
+        index++;
+        continue;
+      }
+
+      // Overlay: l_<layer>[,params] / transformations... / fl_layer_apply,<placement>
+      const [layerParam, ...layerRest] = component.split(',');
+      const overlay: Overlay = {
+        layer: parseLayer(layerParam),
+        transformations: [],
+        apply: {},
+      };
+      if (layerRest.length > 0) {
+        overlay.layerParams = parseTransformation(layerRest.join(','));
+      }
+      index++;
+      for (; index < components.length; index++) {
+        const transformation = parseTransformation(components[index]);
+        if (transformation.flags?.includes('layer_apply')) {
+          const { flags, ...placement } = transformation;
+          const otherFlags = flags.filter((flag) => flag !== 'layer_apply');
+          overlay.apply = otherFlags.length > 0 ? { ...placement, flags: otherFlags } : placement;
+          break;
+        }
+        overlay.transformations.push(transformation);
+      }
+      if (index >= components.length) {
+        return null; // Overlay was never applied
+      }
+      steps.push({ kind: 'overlay', overlay });
+      index++;
+    }
+
+    // Optional version component (v1234567890)
+    const versionMatch = /^v(\d+)$/.exec(components[index] || '');
+    if (versionMatch) {
+      index++;
+    }
+    const publicId = components.slice(index).join('/');
+    if (!publicId) {
+      return null;
+    }
+    return {
+      cloudName,
+      ...(signature && { signature }),
+      steps,
+      ...(versionMatch && { version: Number(versionMatch[1]) }),
+      publicId,
+    };
+  } catch {
+    return null;
+  }
+}
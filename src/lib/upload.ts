@@ -1,36 +1,212 @@
+import type { FaceRegion } from './arrange';
+
+// Uploaded photo, in the shape of Cloudinary's upload response (the local backend returns the same fields)
+export type UploadResult = {
+  public_id: string;
+  secure_url: string;
+  width: number;
+  height: number;
+  original_filename: string;
+  format: string;
+  created_at: string;
+  faces?: FaceRegion[];
+};
+
+export type UploadOptions = {
+  /** Called as the file is sent, with the fraction uploaded (0-1) */
+  onProgress?: (fraction: number) => void;
+  /** Aborts the upload; the promise then rejects with an error whose status is 0 */
+  signal?: AbortSignal;
+  /** Project the photo is for; signed uploads are stored in a folder per project */
+  projectId?: string;
+};
+
+/**
+ * Upload signature issued by the server (see /api/upload-signature)
+ * The signed parameters fix the folder and allowed formats, and Cloudinary refuses the signature after an hour.
+ */
+export type UploadSignature = {
+  apiKey: string;
+  signature: string;
+  /** Signed parameters, sent with the file exactly as given */
+  params: Record<string, string>;
+  /**
+   * Largest file the app uploads, in bytes
+   * Only checked in the browser: Cloudinary has no signed upload parameter for file size, so a client that ignores
+   * it is held to the account's upload limit instead.
+   */
+  maxBytes: number;
+  /** When the signature stops working, in milliseconds since the epoch */
+  expiresAt: number;
+};
+
+/** How an upload is authorized: the server's signature, or an unsigned upload preset (explicit opt-in) */
+export type UploadCredentials = UploadSignature | { uploadPreset: string };
+
+// Folder for photos uploaded before the project is first saved
+const DRAFT_PROJECT_ID = 'drafts';
+
+/** Failed upload: HTTP status of Cloudinary's response, or 0 if there was none (network error, abort) */
+export type UploadError = Error & { status: number };
+
+/**
+ * Creates an upload error
+ * @param message - Reason shown to the user
+ * @param status - HTTP status, or 0 when there was no response
+ */
+export function createUploadError(message: string, status: number): UploadError {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Whether an upload failed for a reason that may go away on its own (network, timeout, rate limit, server error),
+ * so it is worth retrying; a rejected file or bad preset fails the same way every time
+ * @param error - Error thrown by uploadToCloudinary
+ */
+export function isTransientUploadError(error: unknown): boolean {
+  const status = (error as Partial<UploadError>)?.status;
+  return status === 0 || status === 408 || status === 429 || (status !== undefined && status >= 500);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUploadSignature(data: unknown): data is UploadSignature {
+  return (
+    isObject(data) &&
+    typeof data.apiKey === 'string' &&
+    typeof data.signature === 'string' &&
+    isObject(data.params) &&
+    Object.values(data.params).every((value) => typeof value === 'string') &&
+    typeof data.maxBytes === 'number' &&
+    typeof data.expiresAt === 'number'
+  );
+}
+
+function isWidgetSignature(data: unknown): data is { signature: string } {
+  return isObject(data) && typeof data.signature === 'string';
+}
+
+function getResponseErrors(data: unknown): string | null {
+  if (!isObject(data) || !Array.isArray(data.errors)) {
+    return null;
+  }
+  return data.errors.filter((error): error is string => typeof error === 'string').join('\n') || null;
+}
+
+/**
+ * Posts to /api/upload-signature
+ * @param body - Request body
+ * @param isResponse - Checks that the response has the expected shape
+ * @returns The response, once checked
+ */
+async function postUploadSignatureRequest<T>(body: Record<string, unknown>, isResponse: (data: unknown) => data is T): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch('/api/upload-signature', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw createUploadError('Could not reach the server to authorize the upload', 0);
+  }
+  const data: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw createUploadError(getResponseErrors(data) || `Upload authorization failed (HTTP ${response.status})`, response.status);
+  }
+  if (!isResponse(data)) {
+    throw createUploadError('The server sent an invalid upload authorization', response.status);
+  }
+  return data;
+}
+
+/**
+ * Asks the server for an upload signature
+ * @param projectId - Project the photos are for; null for a project that has not been saved yet
+ * @returns Signature and the parameters it covers
+ */
+export async function fetchUploadSignature(projectId: string | null): Promise<UploadSignature> {
+  return postUploadSignatureRequest({ projectId: projectId ?? DRAFT_PROJECT_ID }, isUploadSignature);
+}
+
 /**
- * Uploads a file directly to Cloudinary using the unsigned upload API
+ * Asks the server to sign the parameters of an Upload Widget upload
+ * The server only signs them if they keep to the folder it assigned (see fetchUploadSignature).
+ * @param projectId - Project the photos are for; null for a project that has not been saved yet
+ * @param paramsToSign - Parameters from the widget's uploadSignature callback
+ * @returns Signature
+ */
+export async function signUploadWidgetParams(projectId: string | null, paramsToSign: Record<string, unknown>): Promise<string> {
+  const { signature } = await postUploadSignatureRequest({ projectId: projectId ?? DRAFT_PROJECT_ID, paramsToSign }, isWidgetSignature);
+  return signature;
+}
+
+/**
+ * Uploads a file directly to Cloudinary using the upload API
+ * Uses XHR rather than fetch, which has no upload progress events.
  * @param file - File to upload
  * @param cloudName - Cloudinary cloud name
- * @param uploadPreset - Cloudinary upload preset
- * @returns Promise with public_id and secure_url
+ * @param credentials - Server-issued signature, or an unsigned upload preset
+ * @param options - Progress callback and abort signal
+ * @returns Promise with public_id, secure_url, the stored image size, the original file name and format, the upload time,
+ *   and detected faces (signed uploads always ask for them; an unsigned preset has to enable face detection)
  */
-export async function uploadToCloudinary(
+export function uploadToCloudinary(
   file: File,
   cloudName: string,
-  uploadPreset: string
-): Promise<{ public_id: string; secure_url: string }> {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('upload_preset', uploadPreset);
-
-  const response = await fetch(
-    `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`,
-    {
-      method: 'POST',
-      body: formData,
+  credentials: UploadCredentials,
+  { onProgress, signal }: UploadOptions = {}
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createUploadError('Upload cancelled', 0));
+      return;
     }
-  );
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Upload failed');
-  }
+    const formData = new FormData();
+    formData.append('file', file);
+    if ('signature' in credentials) {
+      Object.entries(credentials.params).forEach(([key, value]) => formData.append(key, value));
+      formData.append('api_key', credentials.apiKey);
+      formData.append('signature', credentials.signature);
+    } else {
+      formData.append('upload_preset', credentials.uploadPreset);
+    }
 
-  const data = await response.json();
-  return {
-    public_id: data.public_id,
-    secure_url: data.secure_url,
-  };
-}
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`);
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      const data = xhr.response;
+      if (xhr.status < 200 || xhr.status >= 300 || !data) {
+        reject(createUploadError(data?.error?.message || `Upload failed (HTTP ${xhr.status})`, xhr.status));
+        return;
+      }
+      onProgress?.(1);
+      resolve({
+        public_id: data.public_id,
+        secure_url: data.secure_url,
+        width: data.width,
+        height: data.height,
+        original_filename: data.original_filename,
+        format: data.format,
+        created_at: data.created_at,
+        faces: data.faces,
+      });
+    };
+    xhr.onerror = () => reject(createUploadError('Network error during upload', 0));
+    xhr.ontimeout = () => reject(createUploadError('Upload timed out', 0));
+    xhr.onabort = () => reject(createUploadError('Upload cancelled', 0));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
 
+    xhr.send(formData);
+  });
+}
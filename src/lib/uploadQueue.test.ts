@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createUploadError, isTransientUploadError } from './upload';
+import { createUploadQueue, type UploadItem, type UploadQueueOptions } from './uploadQueue';
+
+type PendingUpload = {
+  file: File;
+  signal: AbortSignal;
+  onProgress: (fraction: number) => void;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+};
+
+// A queue whose uploads stay pending until the test settles them
+function setup(options: Partial<UploadQueueOptions<string>> = {}) {
+  const uploads: PendingUpload[] = [];
+  let items: UploadItem[] = [];
+  const queue = createUploadQueue<string>({
+    upload: (file, { signal, onProgress }) =>
+      new Promise((resolve, reject) => uploads.push({ file, signal, onProgress, resolve, reject })),
+    concurrency: 2,
+    isTransient: isTransientUploadError,
+    onChange: (next) => {
+      items = next;
+    },
+    ...options,
+  });
+  const statuses = () => items.map((item) => item.status);
+  return { queue, uploads, statuses, items: () => items };
+}
+
+function file(name: string): File {
+  return new File(['photo'], name, { type: 'image/jpeg' });
+}
+
+// Lets the queue react to settled uploads
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter: retries wait exactly 1s, 2s, 4s...
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createUploadQueue', () => {
+  it('runs at most `concurrency` uploads at once, oldest first', async () => {
+    const { queue, uploads, statuses } = setup();
+    const uploaded: string[] = [];
+    ['a.jpg', 'b.jpg', 'c.jpg'].forEach((name) => queue.add(file(name), (result) => uploaded.push(result)));
+    expect(statuses()).toEqual(['uploading', 'uploading', 'queued']);
+    expect(uploads.map((upload) => upload.file.name)).toEqual(['a.jpg', 'b.jpg']);
+
+    uploads[0].onProgress(0.5);
+    expect(statuses()).toEqual(['uploading', 'uploading', 'queued']);
+    uploads[0].resolve('A');
+    await flush();
+    expect(statuses()).toEqual(['done', 'uploading', 'uploading']);
+    expect(uploaded).toEqual(['A']);
+    expect(uploads.map((upload) => upload.file.name)).toEqual(['a.jpg', 'b.jpg', 'c.jpg']);
+  });
+
+  it('starts more uploads when the concurrency goes up', () => {
+    const { queue, statuses } = setup({ concurrency: 1 });
+    ['a.jpg', 'b.jpg', 'c.jpg'].forEach((name) => queue.add(file(name), () => {}));
+    expect(statuses()).toEqual(['uploading', 'queued', 'queued']);
+    queue.setConcurrency(3);
+    expect(statuses()).toEqual(['uploading', 'uploading', 'uploading']);
+  });
+
+  it('retries transient failures after 1s, 2s and 4s, then gives up', async () => {
+    const { queue, uploads, statuses, items } = setup();
+    queue.add(file('a.jpg'), () => {});
+
+    for (const delay of [1000, 2000, 4000]) {
+      uploads[uploads.length - 1].reject(createUploadError('Network error during upload', 0));
+      await flush();
+      expect(statuses()).toEqual(['retrying']);
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(statuses()).toEqual(['retrying']);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(statuses()).toEqual(['uploading']);
+    }
+
+    uploads[3].reject(createUploadError('Network error during upload', 0));
+    await flush();
+    expect(items()[0]).toMatchObject({ status: 'failed', attempts: 4, error: 'Network error during upload' });
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const { queue, uploads, items } = setup();
+    queue.add(file('a.jpg'), () => {});
+    uploads[0].reject(createUploadError('Invalid image file', 400));
+    await flush();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(uploads).toHaveLength(1);
+    expect(items()[0]).toMatchObject({ status: 'failed', attempts: 1, error: 'Invalid image file' });
+  });
+
+  it('aborts a cancelled upload, ignores its late result and starts the next one', async () => {
+    const { queue, uploads, statuses } = setup({ concurrency: 1 });
+    const onUploaded = vi.fn();
+    const id = queue.add(file('a.jpg'), onUploaded);
+    queue.add(file('b.jpg'), () => {});
+
+    queue.cancel(id);
+    expect(uploads[0].signal.aborted).toBe(true);
+    expect(statuses()).toEqual(['cancelled', 'uploading']);
+
+    uploads[0].resolve('A');
+    await flush();
+    expect(onUploaded).not.toHaveBeenCalled();
+    expect(statuses()).toEqual(['cancelled', 'uploading']);
+  });
+
+  it('cancels a pending retry', async () => {
+    const { queue, uploads, statuses } = setup();
+    const id = queue.add(file('a.jpg'), () => {});
+    uploads[0].reject(createUploadError('Upload timed out', 0));
+    await flush();
+    queue.cancel(id);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(uploads).toHaveLength(1);
+    expect(statuses()).toEqual(['cancelled']);
+  });
+
+  it('gives a manual retry a fresh set of automatic retries', async () => {
+    const { queue, uploads, items } = setup({ maxRetries: 0 });
+    const id = queue.add(file('a.jpg'), () => {});
+    uploads[0].reject(createUploadError('Upload timed out', 0));
+    await flush();
+    expect(items()[0]).toMatchObject({ status: 'failed', attempts: 1 });
+
+    queue.retry(id);
+    expect(items()[0]).toMatchObject({ status: 'uploading', attempts: 1, error: undefined });
+    expect(uploads).toHaveLength(2);
+  });
+
+  it('reports an error thrown while handling a finished upload instead of losing it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { queue, uploads, items } = setup();
+    queue.add(file('a.jpg'), () => {
+      throw new Error('Library is full');
+    });
+    uploads[0].resolve('A');
+    await flush();
+    expect(items()[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'Uploaded, but the photo could not be added: Library is full',
+    });
+    expect(uploads).toHaveLength(1);
+  });
+
+  it('clears finished items and keeps the rest', async () => {
+    const { queue, uploads, statuses } = setup();
+    ['a.jpg', 'b.jpg', 'c.jpg'].forEach((name) => queue.add(file(name), () => {}));
+    uploads[0].resolve('A');
+    uploads[1].reject(createUploadError('Invalid image file', 400));
+    await flush();
+    queue.clearFinished();
+    expect(statuses()).toEqual(['uploading']);
+  });
+});
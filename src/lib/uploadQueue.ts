@@ -0,0 +1,189 @@
+/**
+ * Upload queue: runs a limited number of uploads at a time, retries transient failures with backoff,
+ * and lets each file be cancelled or retried on its own, so one bad file doesn't sink the rest
+ */
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export type UploadItem = {
+  id: string;
+  fileName: string;
+  status: UploadStatus;
+  /** Fraction of the current attempt uploaded, 0-1 */
+  progress: number;
+  /** Attempts started so far */
+  attempts: number;
+  /** Reason for the last failure */
+  error?: string;
+};
+
+export type UploadTask<T> = (file: File, options: { onProgress: (fraction: number) => void; signal: AbortSignal }) => Promise<T>;
+
+export type UploadQueueOptions<T> = {
+  upload: UploadTask<T>;
+  /** Uploads running at the same time */
+  concurrency: number;
+  /** Automatic retries after the first attempt */
+  maxRetries?: number;
+  /** Decides which failures are worth retrying */
+  isTransient: (error: unknown) => boolean;
+  /** Called with a fresh copy of the items whenever one changes */
+  onChange: (items: UploadItem[]) => void;
+};
+
+export type UploadQueue<T> = {
+  /**
+   * Queues a file
+   * @param file - File to upload
+   * @param onUploaded - Called with the upload result once it succeeds
+   * @returns Item id
+   */
+  add: (file: File, onUploaded: (result: T) => void) => string;
+  cancel: (id: string) => void;
+  /** Queues a failed or cancelled item again */
+  retry: (id: string) => void;
+  /** Removes finished, failed and cancelled items from the list */
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+};
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+export const UPLOAD_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+
+const DEFAULT_MAX_RETRIES = 3;
+// Retry delays double from here, with jitter so retries after an outage don't all land at once
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Queue bookkeeping for an item; only the UploadItem part is shown to callers
+type Entry<T> = {
+  item: UploadItem;
+  file: File;
+  onUploaded: (result: T) => void;
+  controller?: AbortController;
+  retryTimer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Delay before retry number `retry` (1-based): about 1s, 2s, 4s...
+ */
+function getRetryDelay(retry: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (retry - 1) * (0.75 + Math.random() * 0.5);
+}
+
+/**
+ * Creates an upload queue
+ * @param options - Upload function, concurrency, retry policy and change listener
+ * @returns Queue controls
+ */
+export function createUploadQueue<T>(options: UploadQueueOptions<T>): UploadQueue<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let concurrency = options.concurrency;
+  let entries: Entry<T>[] = [];
+  let nextId = 0;
+
+  const notify = () => options.onChange(entries.map((entry) => ({ ...entry.item })));
+
+  const update = (entry: Entry<T>, changes: Partial<UploadItem>) => {
+    entry.item = { ...entry.item, ...changes };
+    notify();
+  };
+
+  const find = (id: string) => entries.find((entry) => entry.item.id === id);
+
+  // Starts queued uploads, oldest first, until `concurrency` are running
+  const pump = () => {
+    let running = entries.filter((entry) => entry.item.status === 'uploading').length;
+    for (const entry of entries) {
+      if (running >= concurrency) break;
+      if (entry.item.status === 'queued') {
+        start(entry);
+        running++;
+      }
+    }
+  };
+
+  const start = (entry: Entry<T>) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    update(entry, { status: 'uploading', progress: 0, attempts: entry.item.attempts + 1, error: undefined });
+
+    options
+      .upload(entry.file, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (entry.controller === controller) update(entry, { progress });
+        },
+      })
+      // Separate handlers, so an error in onUploaded is not mistaken for a failed upload (and retried or lost)
+      .then(
+        (result) => {
+          if (entry.controller !== controller) return; // Cancelled meanwhile
+          entry.controller = undefined;
+          try {
+            entry.onUploaded(result);
+          } catch (error) {
+            console.error('Failed to add an uploaded photo:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            update(entry, { status: 'failed', progress: 1, error: `Uploaded, but the photo could not be added: ${message}` });
+            return;
+          }
+          update(entry, { status: 'done', progress: 1 });
+        },
+        (error) => {
+          if (entry.controller !== controller) return;
+          entry.controller = undefined;
+          const message = error instanceof Error ? error.message : 'Upload failed';
+          if (options.isTransient(error) && entry.item.attempts <= maxRetries) {
+            update(entry, { status: 'retrying', progress: 0, error: message });
+            entry.retryTimer = setTimeout(() => {
+              entry.retryTimer = undefined;
+              update(entry, { status: 'queued' });
+              pump();
+            }, getRetryDelay(entry.item.attempts));
+          } else {
+            update(entry, { status: 'failed', error: message });
+          }
+        }
+      )
+      .finally(pump);
+  };
+
+  return {
+    add: (file, onUploaded) => {
+      const id = `upload-${nextId++}`;
+      entries.push({
+        item: { id, fileName: file.name, status: 'queued', progress: 0, attempts: 0 },
+        file,
+        onUploaded,
+      });
+      notify();
+      pump();
+      return id;
+    },
+    cancel: (id) => {
+      const entry = find(id);
+      if (!entry || !['queued', 'uploading', 'retrying'].includes(entry.item.status)) return;
+      entry.controller?.abort();
+      entry.controller = undefined;
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = undefined;
+      update(entry, { status: 'cancelled', progress: 0 });
+      pump();
+    },
+    retry: (id) => {
+      const entry = find(id);
+      if (!entry || !['failed', 'cancelled'].includes(entry.item.status)) return;
+      // A manual retry gets a fresh set of automatic retries
+      update(entry, { status: 'queued', progress: 0, attempts: 0, error: undefined });
+      pump();
+    },
+    clearFinished: () => {
+      entries = entries.filter((entry) => !['done', 'failed', 'cancelled'].includes(entry.item.status));
+      notify();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ALLOWED_UPLOAD_FORMATS, checkWidgetParams, getSessionFolder } from './uploadSession';
+
+const NOW_S = 1_765_000_000;
+const folder = getSessionFolder('abcdefghijklmnopqrstuv', 'project-1');
+
+// What the Upload Widget asks to have signed for a normal upload
+const params = {
+  timestamp: NOW_S,
+  source: 'uw',
+  folder,
+  allowed_formats: ALLOWED_UPLOAD_FORMATS.join(','),
+  faces: true,
+  image_metadata: true,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW_S * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('checkWidgetParams', () => {
+  it('accepts the parameters the widget sends', () => {
+    expect(checkWidgetParams(params, folder)).toBeNull();
+    expect(checkWidgetParams({ timestamp: String(NOW_S), folder }, folder)).toBeNull();
+  });
+
+  it('refuses parameters outside the whitelist', () => {
+    expect(checkWidgetParams({ ...params, public_id: 'family-collage/other/photo' }, folder)).toBe(
+      'The upload parameter "public_id" is not allowed'
+    );
+    expect(checkWidgetParams({ ...params, overwrite: true }, folder)).toBe('The upload parameter "overwrite" is not allowed');
+  });
+
+  it("refuses uploads to any folder but the project's", () => {
+    const error = 'Uploads must go to the folder assigned to this project';
+    expect(checkWidgetParams({ ...params, folder: getSessionFolder('abcdefghijklmnopqrstuv') }, folder)).toBe(error);
+    expect(checkWidgetParams({ ...params, folder: `${folder}/../other` }, folder)).toBe(error);
+    const { folder: _, ...withoutFolder } = params;
+    expect(checkWidgetParams(withoutFolder, folder)).toBe(error);
+  });
+
+  it('refuses a changed list of formats', () => {
+    expect(checkWidgetParams({ ...params, allowed_formats: 'jpg,svg' }, folder)).toBe('The allowed formats cannot be changed');
+  });
+
+  it('accepts timestamps up to five minutes off and refuses the rest', () => {
+    const error = 'The upload timestamp is missing or too far from the current time';
+    expect(checkWidgetParams({ ...params, timestamp: NOW_S - 300 }, folder)).toBeNull();
+    expect(checkWidgetParams({ ...params, timestamp: NOW_S + 300 }, folder)).toBeNull();
+    expect(checkWidgetParams({ ...params, timestamp: NOW_S - 301 }, folder)).toBe(error);
+    expect(checkWidgetParams({ ...params, timestamp: NOW_S + 301 }, folder)).toBe(error);
+    expect(checkWidgetParams({ ...params, timestamp: 'yesterday' }, folder)).toBe(error);
+    const { timestamp: _, ...withoutTimestamp } = params;
+    expect(checkWidgetParams(withoutTimestamp, folder)).toBe(error);
+  });
+
+  it('refuses values that are not plain strings, numbers or booleans', () => {
+    expect(checkWidgetParams({ ...params, source: { toString: () => 'uw' } }, folder)).toBe('Upload parameters must be plain values');
+  });
+});
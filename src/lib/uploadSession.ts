@@ -0,0 +1,130 @@
+import { randomBytes } from 'node:crypto';
+import type { AstroCookies } from 'astro';
+import { getGreetingLines } from './greeting';
+import type { ProjectState } from './projects';
+
+/**
+ * Visitor sessions for signed uploads and signed collage URLs
+ * Each session uploads into its own folder, and the server only signs cards whose photos come from the caller's
+ * folder, so the signing endpoints can't be used to put other images from the account on a signed card.
+ * Server-only: the session ID lives in an httpOnly cookie.
+ */
+
+// Photos go to <UPLOAD_ROOT>/<session>/<project>, so one visitor can't write into another's folder
+const UPLOAD_ROOT = 'family-collage';
+
+const SESSION_COOKIE = 'collage_session';
+const SESSION_MAX_AGE_S = 30 * 24 * 60 * 60;
+const SESSION_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+/** Longest greeting line the server signs; a ribbon line is a name and a short wish, not a paragraph */
+export const MAX_SIGNED_TEXT_LENGTH = 120;
+
+/** Image formats signed uploads accept */
+export const ALLOWED_UPLOAD_FORMATS = ['jpg', 'jpeg', 'png', 'webp', 'gif', 'heic', 'heif', 'avif'];
+
+// Widget uploads sign the timestamp the browser picked; allow for a slightly wrong clock, no more
+const MAX_CLOCK_SKEW_S = 5 * 60;
+// Parameters the Upload Widget may ask to have signed; anything else could change where or how files are stored
+const WIDGET_PARAMS = ['timestamp', 'source', 'folder', 'allowed_formats', 'faces', 'image_metadata'];
+
+/**
+ * Reads the visitor's session ID, if they have one
+ * @param cookies - Request cookies
+ * @returns Session ID, or null when the visitor has not uploaded through the server yet
+ */
+export function readSessionId(cookies: AstroCookies): string | null {
+  const sessionId = cookies.get(SESSION_COOKIE)?.value;
+  return sessionId && SESSION_PATTERN.test(sessionId) ? sessionId : null;
+}
+
+/**
+ * Reads the visitor's session ID, starting a session if there is none
+ * @param cookies - Request cookies; a new session is set on the response
+ * @param secure - Whether the cookie may only travel over HTTPS
+ * @returns Session ID
+ */
+export function getSessionId(cookies: AstroCookies, secure: boolean): string {
+  const existing = readSessionId(cookies);
+  if (existing) {
+    return existing;
+  }
+  const sessionId = randomBytes(16).toString('base64url');
+  cookies.set(SESSION_COOKIE, sessionId, { httpOnly: true, sameSite: 'strict', secure, path: '/', maxAge: SESSION_MAX_AGE_S });
+  return sessionId;
+}
+
+/**
+ * Folder a session's photos are uploaded to
+ * @param sessionId - Session ID
+ * @param projectId - Project the photos are for; omit for the session's whole folder
+ * @returns e.g. "family-collage/<session>/<project>"
+ */
+export function getSessionFolder(sessionId: string, projectId?: string): string {
+  return projectId ? `${UPLOAD_ROOT}/${sessionId}/${projectId}` : `${UPLOAD_ROOT}/${sessionId}`;
+}
+
+/**
+ * Why no card can be signed with this configuration
+ * Photos uploaded with the unsigned preset don't go to a session's folder, so checkSignableCard would refuse them all.
+ * @returns The reason, or null when signing can work
+ */
+export function getSigningConfigError(): string | null {
+  return import.meta.env.PUBLIC_CLOUDINARY_UNSIGNED_UPLOADS === 'true'
+    ? 'Signed collage URLs need signed uploads: photos uploaded with the unsigned preset (PUBLIC_CLOUDINARY_UNSIGNED_UPLOADS) ' +
+        'are not stored per session and cannot be signed. Turn off one of the two options.'
+    : null;
+}
+
+/**
+ * Checks that a card may be signed for a session: every photo was uploaded by it and the greeting is short
+ * @param state - Card to sign
+ * @param sessionId - Caller's session, or null if they have none
+ * @returns Every reason the card can't be signed; empty if it can
+ */
+export function checkSignableCard(state: ProjectState, sessionId: string | null): string[] {
+  if (!sessionId) {
+    return ['Only cards made of photos uploaded in this browser can be signed'];
+  }
+  const folder = `${getSessionFolder(sessionId)}/`;
+  const errors: string[] = [];
+  state.layout.forEach((photo, index) => {
+    if (photo && !photo.publicId.startsWith(folder)) {
+      errors.push(`layout[${index}]: only photos uploaded in this browser can be signed`);
+    }
+  });
+  getGreetingLines(state.familyName, state.greeting).forEach((line) => {
+    if (line.text.length > MAX_SIGNED_TEXT_LENGTH) {
+      errors.push(`The greeting ${line.role} is longer than ${MAX_SIGNED_TEXT_LENGTH} characters`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Checks the parameters the Upload Widget asks to have signed
+ * @param params - Parameters from the widget's uploadSignature callback
+ * @param folder - Folder assigned to the session and project (see getSessionFolder)
+ * @returns Why the parameters can't be signed, or null if they can
+ */
+export function checkWidgetParams(params: Record<string, unknown>, folder: string): string | null {
+  const unknownKey = Object.keys(params).find((key) => !WIDGET_PARAMS.includes(key));
+  if (unknownKey) {
+    return `The upload parameter "${unknownKey}" is not allowed`;
+  }
+  if (params.folder !== folder) {
+    return 'Uploads must go to the folder assigned to this project';
+  }
+  if (params.allowed_formats !== undefined && String(params.allowed_formats) !== ALLOWED_UPLOAD_FORMATS.join(',')) {
+    return 'The allowed formats cannot be changed';
+  }
+  const timestamp = Number(params.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(timestamp - Date.now() / 1000) > MAX_CLOCK_SKEW_S) {
+    return 'The upload timestamp is missing or too far from the current time';
+  }
+  const values = Object.values(params);
+  if (!values.every((value) => ['string', 'number', 'boolean'].includes(typeof value))) {
+    return 'Upload parameters must be plain values';
+  }
+  return null;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+type ReadEntry = {
+  name: string;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  data: string;
+};
+
+// Reads an archive the way unzip tools do: end record, then the central directory, then each local header
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  const directorySize = view.getUint32(end + 12, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const headerOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    // The local header repeats the central directory's fields
+    expect(view.getUint32(headerOffset, true)).toBe(0x04034b50);
+    expect(bytes.subarray(headerOffset + 4, headerOffset + 26)).toEqual(bytes.subarray(position + 6, position + 28));
+    expect(decoder.decode(bytes.subarray(headerOffset + 30, headerOffset + 30 + nameLength))).toBe(name);
+
+    const size = view.getUint32(position + 24, true);
+    expect(view.getUint32(position + 20, true)).toBe(size);
+    const dataOffset = headerOffset + 30 + nameLength;
+    entries.push({
+      name,
+      flags: view.getUint16(position + 8, true),
+      method: view.getUint16(position + 10, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true),
+      crc: view.getUint32(position + 16, true),
+      data: decoder.decode(bytes.subarray(dataOffset, dataOffset + size)),
+    });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(end);
+  return entries;
+}
+
+describe('createZip', () => {
+  it('writes stored entries that the central directory points back to', async () => {
+    const zip = createZip([
+      { name: 'Smith.jpg', data: encoder.encode('first card') },
+      { name: 'cards/Jones.jpg', data: encoder.encode('second') },
+    ]);
+    expect(zip.type).toBe('application/zip');
+    const entries = await readZip(zip);
+    expect(entries.map(({ name, method, data }) => ({ name, method, data }))).toEqual([
+      { name: 'Smith.jpg', method: 0, data: 'first card' },
+      { name: 'cards/Jones.jpg', method: 0, data: 'second' },
+    ]);
+  });
+
+  it('stores the CRC-32 of each file', async () => {
+    const [check, empty] = await readZip(
+      createZip([
+        { name: 'check.txt', data: encoder.encode('123456789') },
+        { name: 'empty.txt', data: new Uint8Array() },
+      ])
+    );
+    expect(check.crc).toBe(0xcbf43926);
+    expect(empty.crc).toBe(0);
+  });
+
+  it('marks names as UTF-8', async () => {
+    const [entry] = await readZip(createZip([{ name: 'Müller – 日本.jpg', data: encoder.encode('card') }]));
+    expect(entry.name).toBe('Müller – 日本.jpg');
+    expect(entry.flags & 0x0800).toBe(0x0800);
+  });
+
+  it('records the modification time in MS-DOS format', async () => {
+    const [entry] = await readZip(createZip([{ name: 'a.jpg', data: encoder.encode('a') }], new Date(2025, 11, 24, 18, 3, 11)));
+    expect(entry.date).toBe(((2025 - 1980) << 9) | (12 << 5) | 24);
+    // Seconds are stored halved
+    expect(entry.time).toBe((18 << 11) | (3 << 5) | 5);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = createZip([]);
+    expect(zip.size).toBe(22);
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
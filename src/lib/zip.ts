@@ -0,0 +1,131 @@
+/**
+ * Minimal ZIP writer for batch downloads
+ * Files are stored without compression: the cards are JPEGs, which don't get any smaller.
+ */
+
+export type ZipEntry = {
+  /** Path inside the archive */
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+// Marks file names as UTF-8, so names in any script unpack correctly
+const UTF8_FLAG = 0x0800;
+// Version 2.0: the oldest that every unzip tool reads
+const ZIP_VERSION = 20;
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, the only timestamps the basic format has (two-second precision, local time)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Little-endian header fields: [value, size in bytes]
+function writeHeader(fields: Array<[number, 2 | 4]>): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(fields.reduce((total, [, size]) => total + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  fields.forEach(([value, size]) => {
+    if (size === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += size;
+  });
+  return bytes;
+}
+
+/**
+ * Packs files into a ZIP archive
+ * @param entries - Files in order
+ * @param modified - Modification time recorded for every file
+ * @returns The archive
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const { time, date } = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let offset = 0;
+  let centralDirectorySize = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const localHeader = writeHeader([
+      [0x04034b50, 4],
+      [ZIP_VERSION, 2],
+      [UTF8_FLAG, 2],
+      [0, 2], // Stored, no compression
+      [time, 2],
+      [date, 2],
+      [crc, 4],
+      [size, 4],
+      [size, 4],
+      [name.length, 2],
+      [0, 2],
+    ]);
+    parts.push(localHeader, name, entry.data);
+
+    const centralHeader = writeHeader([
+      [0x02014b50, 4],
+      [ZIP_VERSION, 2],
+      [ZIP_VERSION, 2],
+      [UTF8_FLAG, 2],
+      [0, 2],
+      [time, 2],
+      [date, 2],
+      [crc, 4],
+      [size, 4],
+      [size, 4],
+      [name.length, 2],
+      [0, 2],
+      [0, 2],
+      [0, 2],
+      [0, 2],
+      [0, 4],
+      [offset, 4],
+    ]);
+    centralDirectory.push(centralHeader, name);
+    centralDirectorySize += centralHeader.length + name.length;
+    offset += localHeader.length + name.length + size;
+  });
+
+  const end = writeHeader([
+    [0x06054b50, 4],
+    [0, 2],
+    [0, 2],
+    [entries.length, 2],
+    [entries.length, 2],
+    [centralDirectorySize, 4],
+    [offset, 4],
+    [0, 2],
+  ]);
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import { buildCollageUrl } from '../../lib/collage';
+import { jsonResponse } from '../../lib/http';
+import { MAX_PROJECT_FILE_BYTES, parseProjectFile } from '../../lib/projectFile';
+import { getProjectCollageOptions } from '../../lib/projects';
+import { getServerEnv } from '../../lib/serverEnv';
+import { signDeliveryUrl } from '../../lib/signing';
+import { checkSignableCard, getSigningConfigError, readSessionId } from '../../lib/uploadSession';
+
+export const prerender = false;
+
+/**
+ * Builds and signs the collage URL for a card, for accounts with strict transformations on
+ * Body: a project file (see exportProjectFile). The URL is built here from the validated card, never taken
+ * from the request, and only cards made of the caller's own uploads with a short greeting are signed
+ * (see checkSignableCard), so the endpoint can't be used to sign other images or arbitrary text.
+ * Responds with { url }, 400 with { errors }, 403 when the card can't be signed for this session,
+ * or 503 when no API secret is configured or uploads are unsigned (see getSigningConfigError).
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const apiSecret = getServerEnv('CLOUDINARY_API_SECRET');
+  const cloudName = import.meta.env.PUBLIC_CLOUDINARY_CLOUD_NAME;
+  if (!apiSecret || !cloudName) {
+    return jsonResponse({ errors: ['Signed URLs are not configured on the server (CLOUDINARY_API_SECRET)'] }, 503);
+  }
+  const configError = getSigningConfigError();
+  if (configError) {
+    return jsonResponse({ errors: [configError] }, 503);
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_PROJECT_FILE_BYTES) {
+    return jsonResponse({ errors: ['The project is too large to sign'] }, 413);
+  }
+  const result = parseProjectFile(text);
+  if (!result.ok) {
+    return jsonResponse({ errors: result.errors }, 400);
+  }
+  const { state } = result;
+  const problems = checkSignableCard(state, readSessionId(cookies));
+  if (problems.length > 0) {
+    return jsonResponse({ errors: problems }, 403);
+  }
+  const url = buildCollageUrl(cloudName, state.layout, state.familyName, getProjectCollageOptions(state));
+  return jsonResponse({ url: url && signDeliveryUrl(url, apiSecret) });
+};
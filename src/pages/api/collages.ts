@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { createSharedCollage, type SharedCollage } from '../../lib/collageStore';
+import { jsonResponse } from '../../lib/http';
+import { MAX_PROJECT_FILE_BYTES, parseProjectFile } from '../../lib/projectFile';
+import { getServerEnv } from '../../lib/serverEnv';
+import { checkSignableCard, getSigningConfigError, readSessionId } from '../../lib/uploadSession';
+
+export const prerender = false;
+
+/**
+ * Saves a collage for sharing
+ * Body: a project file (see exportProjectFile). Responds 201 with { id, url } of the share page,
+ * 400 with { errors } listing every problem with the project, 403 when share pages are signed
+ * and the card may not be signed for this session (see checkSignableCard), or 503 when share pages are signed
+ * but uploads are unsigned (see getSigningConfigError). Responds 500 with { errors } when the collage can't be stored.
+ */
+export const POST: APIRoute = async ({ request, url, cookies }) => {
+  const text = await request.text();
+  if (text.length > MAX_PROJECT_FILE_BYTES) {
+    return jsonResponse({ errors: ['The project is too large to share'] }, 413);
+  }
+
+  const result = parseProjectFile(text);
+  if (!result.ok) {
+    return jsonResponse({ errors: result.errors }, 400);
+  }
+  const placed = result.state.layout.filter((photo) => photo !== null);
+  if (placed.length === 0) {
+    return jsonResponse({ errors: ['Add at least one photo to the collage before sharing it'] }, 400);
+  }
+  // The page renders the card with Cloudinary, so photos kept only in someone's browser can't be shown
+  if (placed.some((photo) => !photo.url.startsWith('https://res.cloudinary.com/'))) {
+    return jsonResponse({ errors: ['Only photos stored in Cloudinary can be shared'] }, 400);
+  }
+  // Share pages sign their URLs when the API secret is set, so they are held to the same rules as /api/collage-url
+  if (getServerEnv('CLOUDINARY_API_SECRET')) {
+    const configError = getSigningConfigError();
+    if (configError) {
+      return jsonResponse({ errors: [configError] }, 503);
+    }
+    const problems = checkSignableCard(result.state, readSessionId(cookies));
+    if (problems.length > 0) {
+      return jsonResponse({ errors: problems }, 403);
+    }
+  }
+
+  let collage: SharedCollage;
+  try {
+    collage = await createSharedCollage(result.name, { ...result.state, photos: [] });
+  } catch (error) {
+    // e.g. the disk is full, the store is not writable, or its file is damaged
+    console.error('Failed to save a shared collage:', error);
+    return jsonResponse({ errors: ['The collage could not be saved on the server; please try again later'] }, 500);
+  }
+  return jsonResponse({ id: collage.id, url: new URL(`/c/${collage.id}`, url).toString() }, 201);
+};
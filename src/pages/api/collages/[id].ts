@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { getSharedCollage } from '../../../lib/collageStore';
+import { jsonResponse } from '../../../lib/http';
+
+export const prerender = false;
+
+/**
+ * Returns a shared collage definition, or 404 if the ID is unknown
+ */
+export const GET: APIRoute = async ({ params }) => {
+  const collage = await getSharedCollage(params.id ?? '');
+  return collage ? jsonResponse(collage) : jsonResponse({ errors: ['Collage not found'] }, 404);
+};
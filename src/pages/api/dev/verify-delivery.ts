@@ -0,0 +1,29 @@
+import type { APIRoute } from 'astro';
+import { jsonResponse } from '../../../lib/http';
+import { getServerEnv } from '../../../lib/serverEnv';
+import { verifyDeliveryUrl } from '../../../lib/signing';
+
+export const prerender = false;
+
+/**
+ * Development stand-in for Cloudinary's strict transformations check: GET ?url=<delivery URL>
+ * Responds 200 for a correctly signed URL, or 401 with the reason in x-cld-error, as Cloudinary does,
+ * so signing can be tested offline. Not available in production builds.
+ */
+export const GET: APIRoute = ({ url }) => {
+  const apiSecret = getServerEnv('CLOUDINARY_API_SECRET');
+  if (!import.meta.env.DEV) {
+    return new Response(null, { status: 404 });
+  }
+  if (!apiSecret) {
+    return jsonResponse({ errors: ['CLOUDINARY_API_SECRET is not set'] }, 503);
+  }
+
+  const check = verifyDeliveryUrl(url.searchParams.get('url') ?? '', apiSecret);
+  if (check.ok) {
+    return jsonResponse({ ok: true });
+  }
+  const response = jsonResponse({ ok: false, reason: check.reason }, 401);
+  response.headers.set('x-cld-error', check.reason);
+  return response;
+};
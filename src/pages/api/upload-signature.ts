@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro';
+import { jsonResponse } from '../../lib/http';
+import { MAX_UPLOAD_BYTES } from '../../lib/preprocess';
+import { getServerEnv } from '../../lib/serverEnv';
+import { signUploadParams } from '../../lib/signing';
+import type { UploadSignature } from '../../lib/upload';
+import { ALLOWED_UPLOAD_FORMATS, checkWidgetParams, getSessionFolder, getSessionId } from '../../lib/uploadSession';
+
+export const prerender = false;
+
+// Cloudinary refuses upload signatures older than an hour
+const SIGNATURE_LIFETIME_S = 60 * 60;
+
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Issues a short-lived upload signature for the visitor's session
+ * Body: { projectId } for a direct upload, answered with an UploadSignature;
+ * or { projectId, paramsToSign } from the Upload Widget, answered with { signature }.
+ * Responds 400 with { errors } for a bad request, or 503 when the API key and secret are not configured.
+ */
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  const apiKey = getServerEnv('CLOUDINARY_API_KEY');
+  const apiSecret = getServerEnv('CLOUDINARY_API_SECRET');
+  if (!apiKey || !apiSecret) {
+    return jsonResponse(
+      { errors: ['Signed uploads are not configured on the server (CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET)'] },
+      503
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!isPlainObject(body) || typeof body.projectId !== 'string' || !PROJECT_ID_PATTERN.test(body.projectId)) {
+    return jsonResponse({ errors: ['projectId must be a project ID'] }, 400);
+  }
+  const folder = getSessionFolder(getSessionId(cookies, url.protocol === 'https:'), body.projectId);
+
+  if (body.paramsToSign !== undefined) {
+    if (!isPlainObject(body.paramsToSign)) {
+      return jsonResponse({ errors: ['paramsToSign must be an object'] }, 400);
+    }
+    const problem = checkWidgetParams(body.paramsToSign, folder);
+    if (problem) {
+      return jsonResponse({ errors: [problem] }, 400);
+    }
+    return jsonResponse({ signature: signUploadParams(body.paramsToSign as Record<string, string | number | boolean>, apiSecret) });
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  // Faces are detected on upload so auto-arrange works without a preset
+  const params = { allowed_formats: ALLOWED_UPLOAD_FORMATS.join(','), faces: 'true', folder, timestamp: String(timestamp) };
+  const signature: UploadSignature = {
+    apiKey,
+    signature: signUploadParams(params, apiSecret),
+    params,
+    maxBytes: MAX_UPLOAD_BYTES,
+    expiresAt: (timestamp + SIGNATURE_LIFETIME_S) * 1000,
+  };
+  return jsonResponse(signature);
+};